@@ -0,0 +1,62 @@
+// ---------------------------------------------------------------------------
+// BFF app – the built SPA and the `/assistant` proxy on one origin
+// ---------------------------------------------------------------------------
+//   • POST /assistant  → upstream agent (server/proxy), or a Langbase pipe or
+//                        agent with ASSISTANT_BACKEND=langbase (server/langbase)
+//   • GET  /healthz    → liveness probe
+//   • GET  /*          → files from STATIC_DIR, falling back to index.html so
+//                        client‑side routes survive a reload
+// Errors are JSON `{ error, detail?, code }` (server/errors).
+// ---------------------------------------------------------------------------
+
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { logger } from "hono/logger";
+import { serveStatic } from "@hono/node-server/serve-static";
+
+import type { ServerConfig } from "./config";
+import { HttpError, errorResponse } from "./errors";
+import { langbaseAssistant } from "./langbase";
+import { assistantBodyLimit, assistantProxy } from "./proxy";
+
+export const ASSISTANT_PATH = "/assistant";
+
+export function createApp(config: ServerConfig): Hono {
+  const app = new Hono();
+
+  app.use(logger());
+
+  app.get("/healthz", (c) => c.json({ ok: true }));
+
+  const assistant = config.backend === "langbase" ? langbaseAssistant(config) : assistantProxy(config);
+  app.post(ASSISTANT_PATH, assistantBodyLimit(config), assistant);
+  app.all(ASSISTANT_PATH, () => {
+    throw new HttpError(405, "method_not_allowed", "Use POST for /assistant.");
+  });
+
+  // ‑‑‑ SPA ----------------------------------------------------------------
+  // hashed bundles never change; index.html and config.json must not be cached
+  app.use("*", async (c, next) => {
+    await next();
+    if (!c.res.ok || c.req.method !== "GET") return;
+    const immutable = c.req.path.startsWith("/assets/");
+    c.header("Cache-Control", immutable ? "public, max-age=31536000, immutable" : "no-cache");
+  });
+  const spaIndex = serveStatic({ root: config.staticDir, path: "index.html" });
+  app.get("*", serveStatic({ root: config.staticDir }));
+  // paths without a file extension are routes of the SPA
+  app.get("*", (c, next) => (/\.[^/]*$/.test(c.req.path) ? next() : spaIndex(c, next)));
+
+  app.notFound((c) => errorResponse(c, new HttpError(404, "not_found", "Not found.")));
+
+  app.onError((err, c) => {
+    if (err instanceof HttpError) return errorResponse(c, err);
+    if (err instanceof HTTPException) {
+      return errorResponse(c, new HttpError(err.status, "internal", err.message));
+    }
+    console.error(err);
+    return errorResponse(c, new HttpError(500, "internal", "Internal server error."));
+  });
+
+  return app;
+}
@@ -0,0 +1,121 @@
+// ---------------------------------------------------------------------------
+// Server configuration – environment variables of the backend‑for‑frontend
+// ---------------------------------------------------------------------------
+// Read once at start‑up (after dotenv loaded `.env` / `.env.local`). Secrets
+// such as ASSISTANT_UPSTREAM_TOKEN or LANGBASE_API_KEY stay on the server; the
+// browser only ever talks to this origin.
+// ---------------------------------------------------------------------------
+
+import { z } from "zod";
+
+const MIB = 1024 * 1024;
+
+/** Positive integer from an env string, `fallback` when unset. */
+const int = (fallback: number) => z.coerce.number().int().positive().default(fallback);
+
+const EnvSchema = z
+  .object({
+    PORT: int(8787),
+    HOST: z.string().min(1).default("0.0.0.0"),
+    /** `proxy` forwards to ASSISTANT_UPSTREAM_URL, `langbase` runs a pipe or agent. */
+    ASSISTANT_BACKEND: z.enum(["proxy", "langbase"]).default("proxy"),
+    /** Where `/assistant` requests are forwarded to. */
+    ASSISTANT_UPSTREAM_URL: z.string().url().default("http://127.0.0.1:8080/assistant"),
+    /** Sent upstream as `Authorization: Bearer …`; never exposed to the browser. */
+    ASSISTANT_UPSTREAM_TOKEN: z.string().min(1).optional(),
+    /** Longest wait for the upstream's response headers. */
+    UPSTREAM_TIMEOUT_MS: int(60_000),
+    /** Size limits for JSON bodies and multipart (voice) uploads. */
+    MAX_JSON_BYTES: int(1 * MIB),
+    MAX_UPLOAD_BYTES: int(25 * MIB),
+    /** Built SPA, relative to the working directory. */
+    STATIC_DIR: z.string().min(1).default("dist"),
+    /** Langbase backend: a pipe by name, or an agent run with model and LLM key. */
+    LANGBASE_API_KEY: z.string().min(1).optional(),
+    LANGBASE_BASE_URL: z.string().url().optional(),
+    LANGBASE_PIPE: z.string().min(1).optional(),
+    LANGBASE_AGENT_MODEL: z.string().min(1).optional(),
+    LANGBASE_LLM_KEY: z.string().min(1).optional(),
+    LANGBASE_AGENT_INSTRUCTIONS: z.string().min(1).optional(),
+    LANGBASE_STREAM: z.enum(["true", "false"]).default("true"),
+  })
+  .superRefine((e, ctx) => {
+    if (e.ASSISTANT_BACKEND !== "langbase") return;
+    if (!e.LANGBASE_API_KEY) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["LANGBASE_API_KEY"],
+        message: "Required for the langbase backend",
+      });
+    }
+    if (!e.LANGBASE_PIPE && !(e.LANGBASE_AGENT_MODEL && e.LANGBASE_LLM_KEY)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["LANGBASE_PIPE"],
+        message: "Set LANGBASE_PIPE, or LANGBASE_AGENT_MODEL and LANGBASE_LLM_KEY",
+      });
+    }
+  });
+
+export interface LangbaseConfig {
+  apiKey: string;
+  /** Defaults to https://api.langbase.com; a local stub in development. */
+  baseUrl?: string;
+  /** Pipe to run; wins over `agent`. */
+  pipe?: string;
+  agent?: { model: string; llmKey: string; instructions?: string };
+  /** Answer with SSE when the client accepts it. */
+  stream: boolean;
+}
+
+export interface ServerConfig {
+  port: number;
+  host: string;
+  backend: "proxy" | "langbase";
+  upstreamUrl: string;
+  upstreamToken?: string;
+  upstreamTimeoutMs: number;
+  maxJsonBytes: number;
+  maxUploadBytes: number;
+  staticDir: string;
+  langbase?: LangbaseConfig;
+}
+
+/** Parses `env`; throws with every problem listed when a value is invalid. */
+export function loadServerConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  // empty strings (e.g. `PORT=` in .env) mean "not set"
+  const set = Object.fromEntries(Object.entries(env).filter(([, v]) => v !== ""));
+  const parsed = EnvSchema.safeParse(set);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((i) => `  ${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid server configuration:\n${problems.join("\n")}`);
+  }
+  const e = parsed.data;
+  return {
+    port: e.PORT,
+    host: e.HOST,
+    backend: e.ASSISTANT_BACKEND,
+    upstreamUrl: e.ASSISTANT_UPSTREAM_URL,
+    upstreamToken: e.ASSISTANT_UPSTREAM_TOKEN,
+    upstreamTimeoutMs: e.UPSTREAM_TIMEOUT_MS,
+    maxJsonBytes: e.MAX_JSON_BYTES,
+    maxUploadBytes: e.MAX_UPLOAD_BYTES,
+    staticDir: e.STATIC_DIR,
+    langbase: e.LANGBASE_API_KEY
+      ? {
+          apiKey: e.LANGBASE_API_KEY,
+          baseUrl: e.LANGBASE_BASE_URL,
+          pipe: e.LANGBASE_PIPE,
+          agent:
+            e.LANGBASE_AGENT_MODEL && e.LANGBASE_LLM_KEY
+              ? {
+                  model: e.LANGBASE_AGENT_MODEL,
+                  llmKey: e.LANGBASE_LLM_KEY,
+                  instructions: e.LANGBASE_AGENT_INSTRUCTIONS,
+                }
+              : undefined,
+          stream: e.LANGBASE_STREAM === "true",
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,48 @@
+// ---------------------------------------------------------------------------
+// Error responses – the `{ error, detail? }` body the frontend already reads
+// ---------------------------------------------------------------------------
+// `error` is shown to the user as is, `detail` as the explanation under it
+// (see ErrorBodySchema in src/lib/api). `code` lets scripts and logs tell
+// the failures apart without parsing prose.
+// ---------------------------------------------------------------------------
+
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+
+export type ErrorCode =
+  | "bad_request"
+  | "not_found"
+  | "method_not_allowed"
+  | "unsupported_media_type"
+  | "payload_too_large"
+  | "upstream_unreachable"
+  | "upstream_timeout"
+  | "upstream_error"
+  | "internal";
+
+export interface ErrorBody {
+  error: string;
+  detail?: string;
+  code: ErrorCode;
+}
+
+/** Thrown by handlers; `app.onError` turns it into a JSON response. */
+export class HttpError extends Error {
+  readonly status: ContentfulStatusCode;
+  readonly code: ErrorCode;
+  readonly detail?: string;
+
+  constructor(status: ContentfulStatusCode, code: ErrorCode, message: string, detail?: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+export function errorResponse(c: Context, err: HttpError): Response {
+  const body: ErrorBody = { error: err.message, code: err.code };
+  if (err.detail) body.detail = err.detail;
+  return c.json(body, err.status);
+}
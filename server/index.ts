@@ -0,0 +1,31 @@
+// ---------------------------------------------------------------------------
+// BFF entry point – `npm run server` (after `npm run build`)
+// ---------------------------------------------------------------------------
+
+import { config as loadEnv } from "dotenv";
+import { serve } from "@hono/node-server";
+
+import { createApp } from "./app";
+import { loadServerConfig } from "./config";
+
+// .env.local wins over .env, like in Vite
+loadEnv({ path: [".env.local", ".env"], quiet: true });
+
+const config = loadServerConfig();
+const app = createApp(config);
+
+const server = serve({ fetch: app.fetch, port: config.port, hostname: config.host }, (info) => {
+  console.log(`BFF listening on http://${info.address}:${info.port}`);
+  const lb = config.langbase;
+  const target =
+    config.backend === "langbase"
+      ? `Langbase ${lb?.pipe ? `pipe "${lb.pipe}"` : `agent ${lb?.agent?.model}`}`
+      : config.upstreamUrl;
+  console.log(`  /assistant → ${target}`);
+  console.log(`  static     ← ${config.staticDir}/`);
+});
+
+// let Cloud Run / Docker stop us without cutting off open streams abruptly
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => server.close(() => process.exit(0)));
+}
@@ -0,0 +1,265 @@
+// ---------------------------------------------------------------------------
+// Langbase backend – answers `POST /assistant` with a Langbase pipe or agent
+// ---------------------------------------------------------------------------
+//   • Text, event action and confirmation requests become one user message;
+//     `history` becomes the prior messages of a new conversation
+//   • Conversations continue through `thread_id`: a pipe's Langbase thread,
+//     or a thread this adapter keeps for agent runs (Threads API)
+//   • Streams as SSE (`text` deltas, then `done`) when the client accepts it,
+//     else answers `{ text, thread_id }`
+//   • Voice uploads are refused: Langbase takes no audio input
+// ---------------------------------------------------------------------------
+
+import type { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import { Langbase, getTextPart } from "langbase";
+import type { ChunkStream, LangbaseOptions, Message, RunResponseStream } from "langbase";
+import { z } from "zod";
+
+import type { LangbaseConfig, ServerConfig } from "./config";
+import { HttpError } from "./errors";
+
+// ‑‑‑ Schemas --------------------------------------------------------------
+// Only what the adapter reads; the frontend validated the rest (src/lib/api).
+const TurnSchema = z.object({ role: z.enum(["user", "assistant"]), content: z.string() });
+
+const RequestSchema = z.object({
+  query: z.string().optional(),
+  action: z.object({ type: z.string(), event: z.record(z.unknown()) }).optional(),
+  confirmation: z.object({ action_id: z.string(), approved: z.boolean() }).optional(),
+  events: z.array(z.record(z.unknown())).optional(),
+  history: z.array(TurnSchema).optional(),
+  timezone: z.string().optional(),
+  locale: z.string().optional(),
+  thread_id: z.string().min(1).optional(),
+});
+
+type AssistantRequest = z.infer<typeof RequestSchema>;
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+const json = (value: unknown) => "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+
+/** The request as the user message the pipe or agent sees. */
+function userContent(req: AssistantRequest): string {
+  if (req.confirmation) {
+    const { action_id, approved } = req.confirmation;
+    return `${approved ? "Approved" : "Rejected"} the pending action ${action_id}.`;
+  }
+  if (req.action) {
+    const verb = req.action.type === "create_event" ? "Create" : "Update";
+    return `${verb} this event:\n\n${json(req.action.event)}`;
+  }
+  const query = req.query?.trim() ?? "";
+  return req.events?.length ? `${query}\n\nAttached events:\n\n${json(req.events)}` : query;
+}
+
+/** Today in the user's zone, or undefined for a zone Intl does not know. */
+function today(timeZone: string): string | undefined {
+  try {
+    return new Intl.DateTimeFormat("en-CA", { timeZone }).format(new Date());
+  } catch {
+    return undefined;
+  }
+}
+
+/** `timezone`, `locale` and `today` as pipe variables (`{{timezone}}` …). */
+function variables(req: AssistantRequest) {
+  const zone = req.timezone ?? "UTC";
+  const values = { timezone: zone, locale: req.locale, today: today(zone) };
+  return Object.entries(values)
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([name, value]) => ({ name, value }));
+}
+
+function instructions(base: string | undefined, req: AssistantRequest): string {
+  const context = variables(req)
+    .map((v) => `${v.name}: ${v.value}`)
+    .join(", ");
+  return [base, `Context: ${context}. Resolve relative dates in that time zone.`]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/** Rejects with 504 after `ms`; the SDK takes no abort signal. */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new HttpError(
+            504,
+            "upstream_timeout",
+            "The assistant took too long to answer.",
+            `No response within ${Math.round(ms / 1000)} s.`
+          )
+        ),
+      ms
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function upstreamError(cause: unknown): HttpError {
+  if (cause instanceof HttpError) return cause;
+  return new HttpError(
+    502,
+    "upstream_error",
+    "Langbase could not answer.",
+    cause instanceof Error ? cause.message : undefined
+  );
+}
+
+/** Text deltas of a run stream (newline‑separated OpenAI chunks). */
+async function* textDeltas(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const bytes of stream as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const delta = getTextPart(JSON.parse(line) as ChunkStream);
+      if (delta) yield delta;
+    }
+  }
+}
+
+// ‑‑‑ Runs -----------------------------------------------------------------
+/** One turn against Langbase: `text` when done, or a stream of deltas. */
+interface Run {
+  threadId: string | undefined;
+  text?: string;
+  stream?: ReadableStream<Uint8Array>;
+  /** Called with the full answer once it is known (streams: at the end). */
+  finish: (text: string) => Promise<void>;
+}
+
+async function runPipe(
+  lb: Langbase,
+  pipe: string,
+  req: AssistantRequest,
+  stream: boolean
+): Promise<Run> {
+  const user: Message = { role: "user", content: userContent(req) };
+  // a Langbase thread already holds the earlier turns
+  const messages = req.thread_id ? [user] : [...(req.history ?? []), user];
+  const base = { name: pipe, messages, variables: variables(req), threadId: req.thread_id };
+  const finish = async () => {};
+  if (stream) {
+    const res: RunResponseStream = await lb.pipes.run({ ...base, stream: true });
+    return { threadId: res.threadId ?? req.thread_id, stream: res.stream, finish };
+  }
+  const res = await lb.pipes.run({ ...base, stream: false });
+  return { threadId: res.threadId ?? req.thread_id, text: res.completion, finish };
+}
+
+async function runAgent(
+  lb: Langbase,
+  agent: NonNullable<LangbaseConfig["agent"]>,
+  req: AssistantRequest,
+  stream: boolean
+): Promise<Run> {
+  const user: Message = { role: "user", content: userContent(req) };
+  // agent runs are stateless; the conversation lives in a Langbase thread
+  let threadId = req.thread_id;
+  let prior: Message[];
+  if (threadId) {
+    const stored = await lb.threads.messages.list({ threadId });
+    prior = stored.map(({ role, content }) => ({ role, content }));
+  } else {
+    prior = req.history ?? [];
+    threadId = (await lb.threads.create({ messages: prior })).id;
+  }
+  const base = {
+    model: agent.model,
+    apiKey: agent.llmKey,
+    instructions: instructions(agent.instructions, req),
+    input: [...prior, user],
+  };
+  const finish = async (text: string) => {
+    await lb.threads.append({
+      threadId,
+      messages: [user, { role: "assistant", content: text }],
+    });
+  };
+  if (stream) {
+    const res = await lb.agent.run({ ...base, stream: true });
+    return { threadId, stream: res.stream, finish };
+  }
+  const res = await lb.agent.run({ ...base, stream: false });
+  return { threadId, text: res.output, finish };
+}
+
+// ‑‑‑ Handler --------------------------------------------------------------
+export function langbaseAssistant(config: ServerConfig) {
+  const lbConfig = config.langbase;
+  if (!lbConfig) throw new Error("The langbase backend needs LANGBASE_API_KEY.");
+  const lb = new Langbase({
+    apiKey: lbConfig.apiKey,
+    // typed as the two hosted regions, but any URL works (e.g. the local stub)
+    baseUrl: lbConfig.baseUrl as LangbaseOptions["baseUrl"],
+  });
+
+  const run = (req: AssistantRequest, stream: boolean): Promise<Run> =>
+    lbConfig.pipe
+      ? runPipe(lb, lbConfig.pipe, req, stream)
+      : runAgent(lb, lbConfig.agent!, req, stream);
+
+  return async (c: Context): Promise<Response> => {
+    if (c.req.header("content-type")?.startsWith("multipart/form-data")) {
+      throw new HttpError(
+        415,
+        "unsupported_media_type",
+        "This assistant answers text only.",
+        "Type your request instead of recording it."
+      );
+    }
+    const parsed = RequestSchema.safeParse(await c.req.json().catch(() => null));
+    if (!parsed.success || !userContent(parsed.data)) {
+      throw new HttpError(
+        400,
+        "bad_request",
+        "Invalid request.",
+        "Send a query, an action or a confirmation."
+      );
+    }
+    const req = parsed.data;
+    const stream = lbConfig.stream && !!c.req.header("accept")?.includes("text/event-stream");
+
+    let result: Run;
+    try {
+      result = await withTimeout(run(req, stream), config.upstreamTimeoutMs);
+    } catch (cause) {
+      throw upstreamError(cause);
+    }
+    const { threadId, finish } = result;
+
+    if (!result.stream) {
+      const text = result.text ?? "";
+      await finish(text).catch((err) => console.error("langbase: thread not updated", err));
+      return c.json({ text, thread_id: threadId });
+    }
+
+    const body = result.stream;
+    c.header("x-accel-buffering", "no");
+    return streamSSE(
+      c,
+      async (sse) => {
+        sse.onAbort(() => void body.cancel().catch(() => {}));
+        let text = "";
+        for await (const delta of textDeltas(body)) {
+          text += delta;
+          await sse.writeSSE({ event: "text", data: JSON.stringify({ delta }) });
+        }
+        await finish(text).catch((err) => console.error("langbase: thread not updated", err));
+        await sse.writeSSE({ event: "done", data: JSON.stringify({ text, thread_id: threadId }) });
+      },
+      async (err, sse) => {
+        const { message, detail } = upstreamError(err);
+        await sse.writeSSE({ event: "error", data: JSON.stringify({ error: message, detail }) });
+      }
+    );
+  };
+}
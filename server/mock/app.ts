@@ -0,0 +1,240 @@
+// ---------------------------------------------------------------------------
+// Mock assistant – a local stand‑in for the `/assistant` backend
+// ---------------------------------------------------------------------------
+//   • POST /assistant          → a scenario (server/mock/scenarios)
+//   • GET  /__mock             → scenarios, the script and the request count
+//   • PUT  /__mock/script      → { steps: [...], loop? } answers in that order
+//   • DELETE /__mock/script    → back to the default scenario
+//   • GET/DELETE /__mock/requests → what the mock received, newest last
+//   • /v1/*                    → a Langbase API stub (server/mock/langbase)
+// The scenario for a request is, in this order: the `x-mock-scenario` header
+// or `?scenario=` (with `delay` / `status`), a `mock:<scenario>` token in the
+// query text, the next script step, the default scenario, and otherwise
+// `text` for JSON and `voice` for uploads.
+// ---------------------------------------------------------------------------
+
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { cors } from "hono/cors";
+import { HTTPException } from "hono/http-exception";
+import { logger } from "hono/logger";
+import { z } from "zod";
+
+import { ASSISTANT_PATH } from "../app";
+import { HttpError, errorResponse } from "../errors";
+import { createLangbaseStub } from "./langbase";
+import { SCENARIOS, SCENARIO_NAMES, respond } from "./scenarios";
+import type { MockRequest, ScenarioName, Step } from "./scenarios";
+
+export interface MockOptions {
+  /** Answers requests no header, token or script step decided. */
+  defaultScenario?: ScenarioName;
+  /** Initial script, e.g. from MOCK_SCRIPT. */
+  script?: Step[];
+  loop?: boolean;
+  /** Log every request (off in tests). */
+  log?: boolean;
+}
+
+const MAX_RECORDED = 100;
+
+// ‑‑‑ Schemas --------------------------------------------------------------
+const ScenarioNameSchema = z.enum(SCENARIO_NAMES as [ScenarioName, ...ScenarioName[]]);
+
+const StepSchema = z.union([
+  ScenarioNameSchema.transform((scenario): Step => ({ scenario })),
+  z.object({
+    scenario: ScenarioNameSchema,
+    delayMs: z.number().int().nonnegative().optional(),
+    status: z.number().int().min(400).max(599).optional(),
+  }),
+]);
+
+const ScriptSchema = z.object({
+  steps: z.array(StepSchema).min(1),
+  loop: z.boolean().default(false),
+});
+
+/** `"slow:3000,error:503,text"` → steps; the number is a delay or a status. */
+export function parseScript(spec: string): Step[] {
+  return spec
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [name, arg] = part.split(":");
+      const scenario = ScenarioNameSchema.parse(name);
+      const n = arg ? Number(arg) : undefined;
+      return scenario === "error" ? { scenario, status: n } : { scenario, delayMs: n };
+    });
+}
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+const MOCK_TOKEN = /\bmock:([a-z]+)\b/;
+
+/** The fields the mock looks at; everything else is accepted and ignored. */
+const JsonBodySchema = z.object({
+  query: z.string().optional(),
+  action: z
+    .object({ type: z.string(), event: z.object({ title: z.string().optional() }) })
+    .optional(),
+  confirmation: z.object({ action_id: z.string(), approved: z.boolean() }).optional(),
+  timezone: z.string().optional(),
+});
+
+function describeJson(body: z.infer<typeof JsonBodySchema>): string {
+  if (body.action) return `${body.action.type} "${body.action.event.title ?? "untitled"}"`;
+  if (body.confirmation) {
+    const verb = body.confirmation.approved ? "approve" : "reject";
+    return `${verb} ${body.confirmation.action_id}`;
+  }
+  return body.query?.trim() || "(empty)";
+}
+
+async function readRequest(c: Context): Promise<MockRequest> {
+  const receivedAt = new Date().toISOString();
+  const type = c.req.header("content-type")?.split(";")[0].trim().toLowerCase();
+
+  if (type === "multipart/form-data") {
+    const form = await c.req.parseBody();
+    if (!(form.audio instanceof File)) {
+      throw new HttpError(400, "bad_request", "Recording is missing.", "Send it as `audio`.");
+    }
+    return {
+      kind: "voice",
+      query: `(voice, ${form.audio.type || "unknown type"})`,
+      audioBytes: form.audio.size,
+      timezone: typeof form.timezone === "string" ? form.timezone : undefined,
+      receivedAt,
+    };
+  }
+
+  if (type === "application/json") {
+    const body = JsonBodySchema.safeParse(await c.req.json().catch(() => null));
+    if (!body.success) throw new HttpError(400, "bad_request", "Invalid JSON body.");
+    return { kind: "json", query: describeJson(body.data), timezone: body.data.timezone, receivedAt };
+  }
+
+  throw new HttpError(
+    415,
+    "unsupported_media_type",
+    "Unsupported request format.",
+    "Send application/json or multipart/form-data."
+  );
+}
+
+// ‑‑‑ App ------------------------------------------------------------------
+export function createMockApp(options: MockOptions = {}): Hono {
+  const state = {
+    script: options.script ?? [],
+    loop: options.loop ?? false,
+    cursor: 0,
+    requests: [] as (MockRequest & { scenario: ScenarioName })[],
+  };
+
+  const nextScripted = (): Step | undefined => {
+    if (state.cursor >= state.script.length) {
+      if (!state.loop || !state.script.length) return undefined;
+      state.cursor = 0;
+    }
+    return state.script[state.cursor++];
+  };
+
+  const pickStep = (c: Context, req: MockRequest): Step => {
+    const explicit = c.req.header("x-mock-scenario") ?? c.req.query("scenario");
+    if (explicit) {
+      const scenario = ScenarioNameSchema.safeParse(explicit);
+      if (!scenario.success) {
+        throw new HttpError(
+          400,
+          "bad_request",
+          `Unknown mock scenario "${explicit}".`,
+          `Use one of: ${SCENARIO_NAMES.join(", ")}.`
+        );
+      }
+      const delay = c.req.header("x-mock-delay-ms") ?? c.req.query("delay");
+      const status = c.req.header("x-mock-status") ?? c.req.query("status");
+      return {
+        scenario: scenario.data,
+        delayMs: delay ? Number(delay) : undefined,
+        status: status ? Number(status) : undefined,
+      };
+    }
+    const token = ScenarioNameSchema.safeParse(MOCK_TOKEN.exec(req.query)?.[1]);
+    if (token.success) return { scenario: token.data };
+    return (
+      nextScripted() ?? {
+        scenario: options.defaultScenario ?? (req.kind === "voice" ? "voice" : "text"),
+      }
+    );
+  };
+
+  const app = new Hono();
+
+  if (options.log !== false) app.use(logger());
+  // lets the SPA call the mock directly (VITE_API_URL) without the BFF
+  app.use("*", cors({ origin: (origin) => origin, exposeHeaders: ["x-mock-scenario"] }));
+
+  app.get("/healthz", (c) => c.json({ ok: true }));
+
+  app.post(ASSISTANT_PATH, async (c) => {
+    const req = await readRequest(c);
+    const step = pickStep(c, req);
+    state.requests.push({ ...req, scenario: step.scenario });
+    if (state.requests.length > MAX_RECORDED) state.requests.shift();
+    c.header("x-mock-scenario", step.scenario);
+    return respond(c, req, step);
+  });
+  app.all(ASSISTANT_PATH, () => {
+    throw new HttpError(405, "method_not_allowed", "Use POST for /assistant.");
+  });
+
+  // ‑‑‑ Control ------------------------------------------------------------
+  app.get("/__mock", (c) =>
+    c.json({
+      scenarios: SCENARIOS,
+      defaultScenario: options.defaultScenario ?? null,
+      script: { steps: state.script, loop: state.loop, cursor: state.cursor },
+      requests: state.requests.length,
+    })
+  );
+
+  app.put("/__mock/script", async (c) => {
+    const parsed = ScriptSchema.safeParse(await c.req.json().catch(() => null));
+    if (!parsed.success) {
+      const problems = parsed.error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`);
+      throw new HttpError(400, "bad_request", "Invalid script.", problems.join("; "));
+    }
+    state.script = parsed.data.steps;
+    state.loop = parsed.data.loop;
+    state.cursor = 0;
+    return c.json({ steps: state.script, loop: state.loop });
+  });
+
+  app.delete("/__mock/script", (c) => {
+    state.script = [];
+    state.cursor = 0;
+    return c.body(null, 204);
+  });
+
+  app.get("/__mock/requests", (c) => c.json(state.requests));
+  app.delete("/__mock/requests", (c) => {
+    state.requests = [];
+    return c.body(null, 204);
+  });
+
+  app.route("/", createLangbaseStub());
+
+  app.notFound((c) => errorResponse(c, new HttpError(404, "not_found", "Not found.")));
+
+  app.onError((err, c) => {
+    if (err instanceof HttpError) return errorResponse(c, err);
+    if (err instanceof HTTPException) {
+      return errorResponse(c, new HttpError(err.status, "internal", err.message));
+    }
+    console.error(err);
+    return errorResponse(c, new HttpError(500, "internal", "Internal server error."));
+  });
+
+  return app;
+}
@@ -0,0 +1,45 @@
+// ---------------------------------------------------------------------------
+// Mock assistant entry point – `npm run mock`
+// ---------------------------------------------------------------------------
+// Listens where the BFF's default ASSISTANT_UPSTREAM_URL points, so
+// `npm run dev:offline` works without a real backend.
+// ---------------------------------------------------------------------------
+
+import { config as loadEnv } from "dotenv";
+import { serve } from "@hono/node-server";
+import { z } from "zod";
+
+import { createMockApp, parseScript } from "./app";
+import { SCENARIO_NAMES } from "./scenarios";
+import type { ScenarioName } from "./scenarios";
+
+loadEnv({ path: [".env.local", ".env"], quiet: true });
+
+const EnvSchema = z.object({
+  MOCK_PORT: z.coerce.number().int().positive().default(8080),
+  MOCK_HOST: z.string().min(1).default("127.0.0.1"),
+  /** Scenario for requests nothing else decided. */
+  MOCK_SCENARIO: z.enum(SCENARIO_NAMES as [ScenarioName, ...ScenarioName[]]).optional(),
+  /** e.g. `slow:3000,error:503,text`; repeats when MOCK_SCRIPT_LOOP=true. */
+  MOCK_SCRIPT: z.string().optional(),
+  MOCK_SCRIPT_LOOP: z.enum(["true", "false"]).default("false"),
+});
+
+const env = EnvSchema.parse(
+  Object.fromEntries(Object.entries(process.env).filter(([, v]) => v !== ""))
+);
+
+const app = createMockApp({
+  defaultScenario: env.MOCK_SCENARIO,
+  script: env.MOCK_SCRIPT ? parseScript(env.MOCK_SCRIPT) : undefined,
+  loop: env.MOCK_SCRIPT_LOOP === "true",
+});
+
+const server = serve({ fetch: app.fetch, port: env.MOCK_PORT, hostname: env.MOCK_HOST }, (info) => {
+  console.log(`Mock assistant on http://${info.address}:${info.port}/assistant`);
+  console.log(`  scenarios: ${SCENARIO_NAMES.join(", ")} (GET /__mock)`);
+});
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => server.close(() => process.exit(0)));
+}
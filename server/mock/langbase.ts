@@ -0,0 +1,163 @@
+// ---------------------------------------------------------------------------
+// Langbase stub – the slice of the Langbase HTTP API the adapter uses
+// ---------------------------------------------------------------------------
+//   • POST /v1/pipes/run, /v1/agent/run → an echo of the last user message,
+//     as JSON or as SSE chunks (`data: {…}` … `data: [DONE]`)
+//   • POST /v1/threads, GET/POST /v1/threads/:id/messages → in‑memory threads
+// Pipe runs keep their thread like Langbase does and report it in
+// `lb-thread-id`, so continuity shows in the answer's turn count. Mounted
+// by the mock assistant; point LANGBASE_BASE_URL at it.
+// ---------------------------------------------------------------------------
+
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import { z } from "zod";
+
+const MessageSchema = z.object({
+  role: z.enum(["system", "user", "assistant", "tool", "function"]),
+  content: z.string().nullable(),
+});
+
+type StubMessage = z.infer<typeof MessageSchema>;
+
+const PipeRunSchema = z.object({
+  name: z.string().min(1),
+  messages: z.array(MessageSchema).default([]),
+  variables: z.array(z.object({ name: z.string(), value: z.string() })).default([]),
+  threadId: z.string().optional(),
+  stream: z.boolean().optional(),
+});
+
+const AgentRunSchema = z.object({
+  model: z.string().min(1),
+  input: z.union([z.string(), z.array(MessageSchema)]),
+  instructions: z.string().nullish(),
+  stream: z.boolean().optional(),
+});
+
+const STREAM_TICK_MS = 30;
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+/** Langbase's error body: `{ error: { status, message } }`. */
+const fail = (c: Context, status: 400 | 401 | 404, message: string) =>
+  c.json({ error: { status, message } }, status);
+
+function completion(model: string, content: string) {
+  return {
+    id: `chatcmpl-${crypto.randomUUID()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      { index: 0, message: { role: "assistant", content }, logprobs: null, finish_reason: "stop" },
+    ],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    system_fingerprint: null,
+  };
+}
+
+function streamAnswer(c: Context, model: string, content: string) {
+  const id = `chatcmpl-${crypto.randomUUID()}`;
+  return streamSSE(c, async (sse) => {
+    for (const word of content.split(/(?<=\s)/)) {
+      const chunk = {
+        id,
+        object: "chat.completion.chunk",
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [{ index: 0, delta: { content: word }, logprobs: null, finish_reason: null }],
+      };
+      await sse.writeSSE({ data: JSON.stringify(chunk) });
+      await sse.sleep(STREAM_TICK_MS);
+    }
+    await sse.writeSSE({ data: "[DONE]" });
+  });
+}
+
+function echo(messages: StubMessage[], context: string): string {
+  const last = [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  const turn = messages.filter((m) => m.role === "user").length;
+  return [`**Langbase stub** (turn ${turn}${context ? `, ${context}` : ""})`, "", `> ${last}`].join(
+    "\n"
+  );
+}
+
+// ‑‑‑ App ------------------------------------------------------------------
+export function createLangbaseStub(): Hono {
+  const threads = new Map<string, StubMessage[]>();
+
+  const newThread = (messages: StubMessage[] = []) => {
+    const id = `thread_${crypto.randomUUID()}`;
+    threads.set(id, [...messages]);
+    return id;
+  };
+
+  const app = new Hono();
+
+  app.use("/v1/*", async (c, next) => {
+    if (!c.req.header("authorization")?.match(/^Bearer \S+/)) {
+      return fail(c, 401, "Missing or invalid API key.");
+    }
+    await next();
+  });
+
+  app.post("/v1/pipes/run", async (c) => {
+    const body = PipeRunSchema.safeParse(await c.req.json().catch(() => null));
+    if (!body.success) return fail(c, 400, body.error.issues[0].message);
+    const { name, messages, variables, threadId, stream } = body.data;
+    if (threadId && !threads.has(threadId)) return fail(c, 404, `Thread ${threadId} not found.`);
+
+    const id = threadId ?? newThread();
+    const thread = threads.get(id)!;
+    thread.push(...messages);
+    const context = variables.map((v) => `${v.name}=${v.value}`).join(", ");
+    const content = echo(thread, context);
+    thread.push({ role: "assistant", content });
+
+    c.header("lb-thread-id", id);
+    if (stream) return streamAnswer(c, `pipe:${name}`, content);
+    return c.json({ success: true, completion: content, raw: completion(`pipe:${name}`, content) });
+  });
+
+  app.post("/v1/agent/run", async (c) => {
+    const body = AgentRunSchema.safeParse(await c.req.json().catch(() => null));
+    if (!body.success) return fail(c, 400, body.error.issues[0].message);
+    if (!c.req.header("lb-llm-key")) return fail(c, 401, "Missing LLM API key.");
+    const { model, input, stream } = body.data;
+
+    const messages = typeof input === "string" ? [{ role: "user" as const, content: input }] : input;
+    const content = echo(messages, model);
+    if (stream) return streamAnswer(c, model, content);
+    return c.json({ output: content, raw: completion(model, content) });
+  });
+
+  app.post("/v1/threads", async (c) => {
+    const body = z
+      .object({ messages: z.array(MessageSchema).default([]) })
+      .safeParse(await c.req.json().catch(() => ({})));
+    if (!body.success) return fail(c, 400, body.error.issues[0].message);
+    const id = newThread(body.data.messages);
+    return c.json({ id, object: "thread", created_at: Date.now(), metadata: {} });
+  });
+
+  app.get("/v1/threads/:id/messages", (c) => {
+    const id = c.req.param("id");
+    const thread = threads.get(id);
+    if (!thread) return fail(c, 404, `Thread ${id} not found.`);
+    return c.json(thread.map((m, i) => ({ id: `${id}_${i}`, thread_id: id, ...m })));
+  });
+
+  app.post("/v1/threads/:id/messages", async (c) => {
+    const id = c.req.param("id");
+    const thread = threads.get(id);
+    if (!thread) return fail(c, 404, `Thread ${id} not found.`);
+    const body = z.array(MessageSchema).safeParse(await c.req.json().catch(() => null));
+    if (!body.success) return fail(c, 400, body.error.issues[0].message);
+    const first = thread.length;
+    thread.push(...body.data);
+    return c.json(body.data.map((m, i) => ({ id: `${id}_${first + i}`, thread_id: id, ...m })));
+  });
+
+  return app;
+}
@@ -0,0 +1,183 @@
+// ---------------------------------------------------------------------------
+// Mock scenarios – canned `/assistant` answers for offline work and tests
+// ---------------------------------------------------------------------------
+// Each scenario answers both request kinds: JSON (`query`, `action`,
+// `confirmation`) and multipart voice uploads. Voice answers carry a
+// generated WAV tone as their TTS audio (server/mock/tone).
+// ---------------------------------------------------------------------------
+
+import type { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+
+import { toneWavBase64 } from "./tone";
+
+export const SCENARIOS = {
+  text: "Markdown answer, no audio",
+  voice: "Markdown answer with a WAV tone as audio_b64 (and a transcript for voice requests)",
+  events: "Markdown answer with three structured events",
+  stream: "The voice answer as an SSE stream: transcript, text deltas, audio, done",
+  error: "HTTP error with an { error, detail } body (status 500 unless set)",
+  slow: "The text answer after a delay (8 s unless set)",
+  malformed: "200 with a truncated JSON body",
+} as const;
+
+export type ScenarioName = keyof typeof SCENARIOS;
+
+export const SCENARIO_NAMES = Object.keys(SCENARIOS) as ScenarioName[];
+
+/** What the mock understood of a request. */
+export interface MockRequest {
+  kind: "json" | "voice";
+  /** The query, a description of an action, or a stand‑in for speech. */
+  query: string;
+  audioBytes?: number;
+  timezone?: string;
+  receivedAt: string;
+}
+
+/** One scripted answer. */
+export interface Step {
+  scenario: ScenarioName;
+  /** `slow`: how long to wait; others: extra latency. */
+  delayMs?: number;
+  /** `error`: the status to answer with. */
+  status?: number;
+}
+
+const SLOW_DEFAULT_MS = 8_000;
+const STREAM_TICK_MS = 60;
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal.aborted || ms <= 0) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+function transcriptOf(req: MockRequest): string | undefined {
+  if (req.kind !== "voice") return undefined;
+  const kb = Math.max(1, Math.round((req.audioBytes ?? 0) / 1024));
+  return `(mock transcript of a ${kb} KB recording)`;
+}
+
+function markdown(req: MockRequest, scenario: ScenarioName): string {
+  return [
+    "### Mock assistant",
+    "",
+    `You asked: **${req.query}**`,
+    "",
+    `- Scenario: \`${scenario}\``,
+    `- Request: ${req.kind === "voice" ? "voice upload" : "JSON"}`,
+    `- Time zone: ${req.timezone ?? "not sent"}`,
+  ].join("\n");
+}
+
+/** Three meetings tomorrow, in the flat wire shape. */
+function sampleEvents() {
+  const day = new Date();
+  day.setDate(day.getDate() + 1);
+  const at = (h: number, m = 0) => {
+    const d = new Date(day);
+    d.setHours(h, m, 0, 0);
+    return d.toISOString();
+  };
+  return [
+    {
+      id: "mock-standup",
+      title: "Team standup",
+      start: at(9),
+      end: at(9, 15),
+      recurrence: ["RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"],
+      attendees: [
+        { email: "you@example.com", self: true, status: "accepted" },
+        { email: "ada@example.com", name: "Ada Lovelace", status: "accepted" },
+      ],
+    },
+    {
+      id: "mock-review",
+      title: "Design review",
+      start: at(11),
+      end: at(12),
+      location: "Room 4.12",
+      calendar_id: "team",
+      attendees: [
+        { email: "you@example.com", self: true, status: "needsAction" },
+        { email: "grace@example.com", name: "Grace Hopper", status: "tentative" },
+      ],
+    },
+    {
+      id: "mock-1on1",
+      title: "1:1",
+      start: at(15, 30),
+      end: at(16),
+      attendees: [{ email: "alan@example.com", name: "Alan Turing", organizer: true }],
+    },
+  ];
+}
+
+function voiceBody(req: MockRequest) {
+  return {
+    text: markdown(req, "voice"),
+    audio_b64: toneWavBase64(),
+    mime: "audio/wav",
+    transcript: transcriptOf(req),
+  };
+}
+
+// ‑‑‑ Scenarios ------------------------------------------------------------
+export async function respond(c: Context, req: MockRequest, step: Step): Promise<Response> {
+  const signal = c.req.raw.signal;
+  if (step.scenario !== "slow") await sleep(step.delayMs ?? 0, signal);
+
+  switch (step.scenario) {
+    case "text":
+      return c.json({ text: markdown(req, "text"), transcript: transcriptOf(req) });
+
+    case "voice":
+      return c.json(voiceBody(req));
+
+    case "events":
+      return c.json({
+        text: markdown(req, "events"),
+        transcript: transcriptOf(req),
+        events: sampleEvents(),
+      });
+
+    case "stream": {
+      const { text, audio_b64, mime, transcript } = voiceBody(req);
+      return streamSSE(c, async (sse) => {
+        if (transcript) {
+          await sse.writeSSE({ event: "transcript", data: JSON.stringify({ transcript }) });
+        }
+        for (const word of text.split(/(?<=\s)/)) {
+          await sse.writeSSE({ event: "text", data: JSON.stringify({ delta: word }) });
+          await sse.sleep(STREAM_TICK_MS);
+        }
+        await sse.writeSSE({ event: "audio", data: JSON.stringify({ audio_b64, mime }) });
+        await sse.writeSSE({ event: "done", data: JSON.stringify({ text, transcript }) });
+      });
+    }
+
+    case "error": {
+      const status = step.status ?? 500;
+      return c.json(
+        {
+          error: "The mock assistant failed on purpose.",
+          detail: `Scenario "error" answered with HTTP ${status}.`,
+        },
+        status as 500
+      );
+    }
+
+    case "slow":
+      await sleep(step.delayMs ?? SLOW_DEFAULT_MS, signal);
+      return c.json({ text: markdown(req, "slow"), transcript: transcriptOf(req) });
+
+    case "malformed":
+      return c.body('{"text": "### Cut off mid-', 200, { "Content-Type": "application/json" });
+  }
+}
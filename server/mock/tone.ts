@@ -0,0 +1,52 @@
+// ---------------------------------------------------------------------------
+// Test tone – a short sine beep as a 16‑bit mono WAV, standing in for TTS
+// ---------------------------------------------------------------------------
+
+export interface ToneOptions {
+  frequency?: number;
+  durationMs?: number;
+  sampleRate?: number;
+  /** Peak amplitude, 0–1. */
+  volume?: number;
+}
+
+/** Fade in/out, so the beep does not click. */
+const FADE_MS = 15;
+
+export function toneWav({
+  frequency = 660,
+  durationMs = 600,
+  sampleRate = 16_000,
+  volume = 0.3,
+}: ToneOptions = {}): Buffer {
+  const samples = Math.round((sampleRate * durationMs) / 1000);
+  const fade = Math.min(Math.round((sampleRate * FADE_MS) / 1000), Math.floor(samples / 2));
+  const dataBytes = samples * 2;
+  const wav = Buffer.alloc(44 + dataBytes);
+
+  // RIFF header, PCM format chunk, data chunk
+  wav.write("RIFF", 0, "ascii");
+  wav.writeUInt32LE(36 + dataBytes, 4);
+  wav.write("WAVE", 8, "ascii");
+  wav.write("fmt ", 12, "ascii");
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  wav.writeUInt16LE(2, 32); // block align
+  wav.writeUInt16LE(16, 34); // bits per sample
+  wav.write("data", 36, "ascii");
+  wav.writeUInt32LE(dataBytes, 40);
+
+  for (let i = 0; i < samples; i++) {
+    const envelope = Math.min(1, i / (fade || 1), (samples - 1 - i) / (fade || 1));
+    const value = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * volume * envelope;
+    wav.writeInt16LE(Math.round(value * 0x7fff), 44 + i * 2);
+  }
+  return wav;
+}
+
+export function toneWavBase64(options?: ToneOptions): string {
+  return toneWav(options).toString("base64");
+}
@@ -0,0 +1,146 @@
+// ---------------------------------------------------------------------------
+// Assistant proxy – forwards `POST /assistant` to the configured upstream
+// ---------------------------------------------------------------------------
+//   • Accepts JSON (text, action, confirmation) and multipart (voice) bodies
+//     only, each with its own size limit
+//   • Adds the upstream token server‑side; cookies never leave this origin
+//   • Times out when the upstream sends no headers within the limit; once it
+//     answers, the body (JSON or an SSE stream) is passed through unbuffered
+//   • Cancels the upstream request when the browser goes away
+// ---------------------------------------------------------------------------
+
+import type { Context, MiddlewareHandler } from "hono";
+import { bodyLimit } from "hono/body-limit";
+
+import type { ServerConfig } from "./config";
+import { HttpError } from "./errors";
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+type BodyKind = "json" | "multipart";
+
+function bodyKind(contentType: string | undefined): BodyKind | null {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (type === "application/json") return "json";
+  if (type === "multipart/form-data") return "multipart";
+  return null;
+}
+
+/** Request headers worth forwarding; the rest (cookies, auth) stays here. */
+const FORWARDED_REQUEST_HEADERS = ["content-type", "accept", "accept-language", "user-agent"];
+
+/** Hop‑by‑hop headers, plus encoding headers fetch already undid. */
+const DROPPED_RESPONSE_HEADERS = [
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  "content-encoding",
+  "content-length",
+  "set-cookie",
+];
+
+function upstreamHeaders(c: Context, config: ServerConfig): Headers {
+  const headers = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = c.req.header(name);
+    if (value) headers.set(name, value);
+  }
+  const url = new URL(c.req.url);
+  const forwardedFor = c.req.header("x-forwarded-for");
+  headers.set("x-forwarded-host", url.host);
+  headers.set("x-forwarded-proto", url.protocol.replace(":", ""));
+  if (forwardedFor) headers.set("x-forwarded-for", forwardedFor);
+  if (config.upstreamToken) headers.set("authorization", `Bearer ${config.upstreamToken}`);
+  return headers;
+}
+
+// ‑‑‑ Middleware -----------------------------------------------------------
+/** 415 for bodies that are neither JSON nor multipart, 413 over the limit. */
+export function assistantBodyLimit(config: ServerConfig): MiddlewareHandler {
+  const limits: Record<BodyKind, MiddlewareHandler> = {
+    json: bodyLimit({
+      maxSize: config.maxJsonBytes,
+      onError: () => {
+        throw new HttpError(
+          413,
+          "payload_too_large",
+          "The request is too large.",
+          `JSON bodies may be at most ${config.maxJsonBytes} bytes.`
+        );
+      },
+    }),
+    multipart: bodyLimit({
+      maxSize: config.maxUploadBytes,
+      onError: () => {
+        throw new HttpError(
+          413,
+          "payload_too_large",
+          "The recording is too large.",
+          `Uploads may be at most ${Math.floor(config.maxUploadBytes / 1024 / 1024)} MiB.`
+        );
+      },
+    }),
+  };
+  return async (c, next) => {
+    const kind = bodyKind(c.req.header("content-type"));
+    if (!kind) {
+      throw new HttpError(
+        415,
+        "unsupported_media_type",
+        "Unsupported request format.",
+        "Send application/json or multipart/form-data."
+      );
+    }
+    return limits[kind](c, next);
+  };
+}
+
+// ‑‑‑ Handler --------------------------------------------------------------
+export function assistantProxy(config: ServerConfig) {
+  return async (c: Context): Promise<Response> => {
+    // buffered: bodies are small and bounded, and fetch needs no duplex streaming
+    const body = await c.req.arrayBuffer();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort("timeout"), config.upstreamTimeoutMs);
+    const clientGone = () => controller.abort("client");
+    c.req.raw.signal.addEventListener("abort", clientGone);
+
+    let upstream: Response;
+    try {
+      upstream = await fetch(config.upstreamUrl, {
+        method: "POST",
+        headers: upstreamHeaders(c, config),
+        body,
+        signal: controller.signal,
+      });
+    } catch (cause) {
+      c.req.raw.signal.removeEventListener("abort", clientGone);
+      if (controller.signal.reason === "timeout") {
+        throw new HttpError(
+          504,
+          "upstream_timeout",
+          "The assistant took too long to answer.",
+          `No response within ${Math.round(config.upstreamTimeoutMs / 1000)} s.`
+        );
+      }
+      throw new HttpError(
+        502,
+        "upstream_unreachable",
+        "Cannot reach the assistant.",
+        cause instanceof Error ? cause.message : undefined
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const headers = new Headers(upstream.headers);
+    for (const name of DROPPED_RESPONSE_HEADERS) headers.delete(name);
+    if (headers.get("content-type")?.startsWith("text/event-stream")) {
+      // keep intermediaries (nginx, Cloud Run) from buffering the stream
+      headers.set("cache-control", "no-cache");
+      headers.set("x-accel-buffering", "no");
+    }
+    // upstream errors pass through: their `{ error, detail }` is already the contract
+    return new Response(upstream.body, { status: upstream.status, headers });
+  };
+}
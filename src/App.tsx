@@ -1,10 +1,44 @@
 import { Toaster } from "@/components/ui/sonner";
 import { ErrorBoundary } from "react-error-boundary";
+import { SearchX } from "lucide-react";
 import Agent from "./components/agent";
+import Kiosk from "./components/kiosk";
+import HistoryPage from "./components/history-page";
+import SettingsPage from "./components/settings-page";
+import { Link, PageLayout } from "./components/app-nav";
+import { useRoute, useRouter } from "@/lib/router";
+
+function Page() {
+  const route = useRoute();
+  switch (route.name) {
+    case "chat":
+      return <Agent threadId={route.threadId} />;
+    case "kiosk":
+      return <Kiosk />;
+    case "history":
+      return <HistoryPage />;
+    case "settings":
+      return <SettingsPage />;
+    case "not-found":
+      return (
+        <PageLayout title="Page not found" description={route.path} icon={SearchX}>
+          <p className="text-center">
+            <Link to="/" className="underline">
+              Back to the chat
+            </Link>
+          </p>
+        </PageLayout>
+      );
+  }
+}
+
 function App() {
+  const path = useRouter((s) => s.path);
   return (
     <>
       <ErrorBoundary
+        // navigating away from a broken page recovers from it
+        resetKeys={[path]}
         fallbackRender={({ error, resetErrorBoundary }) => (
           <div className="flex flex-col items-center justify-center h-screen gap-4">
             <h1 className="text-2xl font-bold">Error</h1>
@@ -21,7 +55,7 @@ function App() {
         )}
       >
         <Toaster />
-        <Agent />
+        <Page />
       </ErrorBoundary>
     </>
   );
@@ -0,0 +1,75 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Agent switcher – pick which assistant new conversations go to
+// ---------------------------------------------------------------------------
+
+import type { FC } from "react";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BookOpen, Bot, Calendar, Mail, Sparkles } from "lucide-react";
+import type { LucideIcon, LucideProps } from "lucide-react";
+
+import { isAgentAvailable, useAgents } from "@/lib/agents";
+import type { AgentDefinition, AgentIconName } from "@/lib/agents";
+
+const ICONS: Record<AgentIconName, LucideIcon> = {
+  calendar: Calendar,
+  mail: Mail,
+  book: BookOpen,
+  bot: Bot,
+  sparkles: Sparkles,
+};
+
+export const agentIcon = (icon: AgentIconName): LucideIcon => ICONS[icon];
+
+export const AgentIcon: FC<{ icon: AgentIconName } & LucideProps> = ({ icon, ...props }) => {
+  const Icon = agentIcon(icon);
+  return <Icon {...props} />;
+};
+
+export const AgentSwitcher: FC<{
+  /** The conversation's agent, which may differ from the saved choice. */
+  value: AgentDefinition;
+  onChange: (agent: AgentDefinition) => void;
+  disabled?: boolean;
+  className?: string;
+}> = ({ value, onChange, disabled = false, className }) => {
+  const agents = useAgents((s) => s.agents);
+
+  return (
+    <Select
+      value={value.id}
+      onValueChange={(id) => {
+        const agent = agents.find((a) => a.id === id);
+        if (agent) onChange(agent);
+      }}
+      disabled={disabled}
+    >
+      <SelectTrigger size="sm" className={className} title={value.description}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {agents.map((agent) => (
+          <SelectItem
+            key={agent.id}
+            value={agent.id}
+            disabled={!isAgentAvailable(agent)}
+            title={isAgentAvailable(agent) ? agent.description : "No endpoint configured"}
+          >
+            <AgentIcon icon={agent.icon} />
+            {agent.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default AgentSwitcher;
@@ -1,331 +1,506 @@
-"use client";
-
-// ---------------------------------------------------------------------------
-// Google‑Calendar Assistant – unified voice ✚ text interface (final)
-// ---------------------------------------------------------------------------
-// Features
-//   • Mode toggle (🎤 Voice / ⌨️ Text)
-//   • Voice mode: records audio and POSTs FormData { audio: Blob }
-//   • Text mode: POSTs JSON { query: string }
-//   • Unified JSON response handler { text, audio_b64, mime }
-//   • Renders streamed TTS audio and Markdown summary side‑by‑side
-// ---------------------------------------------------------------------------
-
-import { useState, useRef, useEffect } from "react";
-import type { FC } from "react";
-
-import {
-  Card,
-  CardContent,
-  CardDescription,
-  CardHeader,
-  CardTitle,
-} from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Skeleton } from "@/components/ui/skeleton";
-import { toast } from "sonner";
-import {
-  Calendar,
-  Mic,
-  Square,
-  Users,
-  PlayCircle,
-  Keyboard,
-} from "lucide-react";
-import ReactMarkdown from "react-markdown";
-
-// ‑‑‑ Config ---------------------------------------------------------------
-const BACKEND_URL = "http://127.0.0.1:8080/assistant"; // update for prod
-
-// ‑‑‑ Helpers --------------------------------------------------------------
-const isSecureContextOrLocal = () =>
-  window.isSecureContext || ["localhost", "127.0.0.1"].includes(location.hostname);
-
-async function queryMicPermission(): Promise<PermissionState | "unsupported"> {
-  if (!("permissions" in navigator)) return "unsupported";
-  try {
-    const status = await navigator.permissions.query({ name: "microphone" });
-    return status.state;
-  } catch {
-    return "unsupported";
-  }
-}
-
-function base64ToBlob(base64: string, mime = "application/octet-stream"): Blob {
-  const dataPart = base64.includes(",") ? base64.split(",")[1] : base64;
-  const binary = atob(dataPart);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
-  return new Blob([bytes], { type: mime });
-}
-
-// ‑‑‑ Component -------------------------------------------------------------
-export const AgentAudio: FC = () => {
-  type Mode = "voice" | "text";
-  const [mode, setMode] = useState<Mode>("voice");
-
-  const [markdown, setMarkdown] = useState<string>("");
-  const [audioUrl, setAudioUrl] = useState<string>("");
-  const [isLoading, setLoading] = useState(false);
-  const [isRecording, setRecording] = useState(false);
-  const [textQuery, setTextQuery] = useState<string>("");
-
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<BlobPart[]>([]);
-
-  useEffect(() => {
-    if (!isSecureContextOrLocal()) {
-      toast.warning("Microphone requires HTTPS or localhost.");
-    }
-  }, []);
-
-  /* ----- Voice recording helpers ----- */
-  const startRecording = async () => {
-    if (!navigator.mediaDevices?.getUserMedia) {
-      toast.error("getUserMedia not supported in this browser.");
-      return;
-    }
-    const micState = await queryMicPermission();
-    if (micState === "denied") {
-      toast.error("Microphone permission denied.");
-      return;
-    }
-
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const mimeType = MediaRecorder.isTypeSupported("audio/webm;codecs=opus")
-        ? "audio/webm;codecs=opus"
-        : "audio/webm";
-      const recorder = new MediaRecorder(stream, { mimeType });
-      mediaRecorderRef.current = recorder;
-      chunksRef.current = [];
-
-      recorder.ondataavailable = (e) => {
-        if (e.data.size) chunksRef.current.push(e.data);
-      };
-      recorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: recorder.mimeType });
-        if (!blob.size) return toast.error("Empty recording, try again.");
-        sendAudio(blob);
-        stream.getTracks().forEach((t) => t.stop());
-      };
-
-      recorder.start();
-      setRecording(true);
-      toast("Recording…", { duration: 1000 });
-    } catch (err: any) {
-      toast.error(err.message || "Cannot start recording.");
-    }
-  };
-
-  const stopRecording = () => {
-    mediaRecorderRef.current?.stop();
-    setRecording(false);
-  };
-
-  /* ----- Network helpers ----- */
-  const handleBackendJson = (data: any) => {
-    if (data.text) setMarkdown(data.text);
-    if (data.audio_b64) {
-      const mime = data.mime || "audio/mpeg";
-      const blob = base64ToBlob(data.audio_b64, mime);
-      setAudioUrl((old) => {
-        if (old) URL.revokeObjectURL(old);
-        return URL.createObjectURL(blob);
-      });
-    }
-  };
-
-  const sendAudio = async (blob: Blob) => {
-    setLoading(true);
-    setAudioUrl("");
-    const fd = new FormData();
-    fd.append("audio", blob, "recording.webm");
-
-    try {
-      const res = await fetch(BACKEND_URL, { method: "POST", body: fd });
-      const data = await res.json();
-      if (!res.ok) throw new Error(data?.error || res.statusText);
-      handleBackendJson(data);
-    } catch (err: any) {
-      toast.error(err.message || "Request failed");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const sendText = async () => {
-    if (!textQuery.trim()) {
-      toast.error("Please enter a request.");
-      return;
-    }
-    setLoading(true);
-    setAudioUrl("");
-    try {
-      const res = await fetch(BACKEND_URL, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query: textQuery }),
-      });
-      const data = await res.json();
-      if (!res.ok) throw new Error(data?.error || res.statusText);
-      handleBackendJson(data);
-    } catch (err: any) {
-      toast.error(err.message || "Request failed");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  /* ----- JSX ----- */
-  return (
-    <div className="min-h-screen bg-background text-foreground p-4 md:p-6 lg:p-8">
-      <div className="max-w-4xl mx-auto space-y-6">
-        {/* Header */}
-        <header className="text-center space-y-2">
-          <div className="flex items-center justify-center gap-2 mb-4">
-            <Calendar className="h-8 w-8 text-primary" />
-            <h1 className="text-3xl font-bold">AI Voice Assistant</h1>
-          </div>
-          <p className="text-muted-foreground text-lg">
-            Ask for your events by voice or text.
-          </p>
-        </header>
-
-        {/* Mode selector */}
-        <div className="flex justify-center gap-2">
-          <Button
-            variant={mode === "voice" ? "default" : "outline"}
-            onClick={() => setMode("voice")}
-          >
-            🎤 Voice
-          </Button>
-          <Button
-            variant={mode === "text" ? "default" : "outline"}
-            onClick={() => setMode("text")}
-          >
-            ⌨️ Text
-          </Button>
-        </div>
-
-        {/* Voice controls */}
-        {mode === "voice" && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Mic className="h-5 w-5" /> Voice Request
-              </CardTitle>
-              <CardDescription>
-                Tap the mic to {isRecording ? "stop" : "start"} recording.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="flex justify-center">
-              <Button
-                size="lg"
-                onClick={isRecording ? stopRecording : startRecording}
-                disabled={isLoading}
-                className="rounded-full h-16 w-16 p-0"
-                variant={isRecording ? "destructive" : "default"}
-              >
-                {isRecording ? <Square className="h-8 w-8" /> : <Mic className="h-8 w-8" />}
-              </Button>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Text controls */}
-        {mode === "text" && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Keyboard className="h-5 w-5" /> Text Request
-              </CardTitle>
-              <CardDescription>Type your request and hit Send.</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="flex gap-2">
-                <Input
-                  value={textQuery}
-                  onChange={(e) => setTextQuery(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && sendText()}
-                  placeholder="Get my events for next week…"
-                  disabled={isLoading}
-                  className="flex-1"
-                />
-                <Button onClick={sendText} disabled={isLoading || !textQuery.trim()}>
-                  Send
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Loading skeleton */}
-        {isLoading && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Calendar className="h-5 w-5 animate-pulse" /> Processing…
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              {Array.from({ length: 4 }).map((_, i) => (
-                <Skeleton key={i} className="h-4 w-full" />
-              ))}
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Audio output */}
-        {audioUrl && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <PlayCircle className="h-5 w-5 text-green-500" /> Audio Summary
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="flex justify-center">
-              <audio controls src={audioUrl} className="w-full" />
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Markdown output */}
-        {markdown && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Calendar className="h-5 w-5 text-green-500" /> Text Summary
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <ReactMarkdown>{markdown}</ReactMarkdown>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Initial guidance */}
-        {!markdown && !audioUrl && !isLoading && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Users className="h-5 w-5" /> Getting Started
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-2">
-              <p>Examples:</p>
-              <ul className="list-disc pl-4 space-y-1 text-muted-foreground">
-                <li>"Get my events for the next week"</li>
-                <li>"Show my calendar for today"</li>
-                <li>"What meetings do I have tomorrow?"</li>
-              </ul>
-            </CardContent>
-          </Card>
-        )}
-      </div>
-    </div>
-  );
-};
-
-export default AgentAudio;
+"use client";
+
+// ---------------------------------------------------------------------------
+// Agent App – unified voice ✚ text interface for the registered agents
+// ---------------------------------------------------------------------------
+// Features
+//   • Mode toggle (🎤 Voice / ⌨️ Text)
+//   • Voice mode: records audio and POSTs FormData { audio: Blob }
+//   • Text mode: POSTs JSON { query: string }
+//   • Unified, schema‑validated response { text, audio_b64, mime } (lib/api)
+//   • Multi‑turn thread: prior turns are sent as `history` for follow‑ups
+//   • Threads (incl. audio) persist in IndexedDB; sidebar to reopen them
+//   • Backend URL comes from lib/config (env, config.json, env switcher)
+//   • SSE streaming: Markdown renders as it arrives, TTS chunks play early
+//   • Cancel, timeout and retry with backoff; failed turns can be resent
+//   • Hands‑free: voice activity detection ends the recording (use-recorder)
+//   • Push‑to‑talk and global hotkeys (lib/shortcuts), `?` shows them all
+//   • Live waveform, level meter and timer; silent recordings are not sent
+//   • Uploads as recorded or as 16 kHz mono WAV/FLAC, per backend (lib/config)
+//   • Microphone picker and echo/noise/gain toggles (voice settings)
+//   • Structured `events` render as cards or a day/week/month calendar,
+//     toggled against the Markdown summary (events-answer)
+//   • Transcript of voice turns; corrections are resent as text queries
+//   • Barge‑in: answers auto‑play and duck/stop as soon as the user talks
+//   • Event form: create or edit events; submits a structured `action`
+//   • `pending_action` answers wait for Confirm / Cancel, which is posted back
+//   • Events export as .ics; dropped .ics files are sent along as `events`
+//   • Requests carry `timezone` and `locale`; event times render in the chosen
+//     zone with an optional secondary zone (time-zone-settings)
+//   • Insights: meeting hours, who you meet and focus time for a range
+//   • Agent registry (lib/agents): the switcher picks the agent of new
+//     conversations; each thread keeps its agent, and the agent's modes,
+//     examples and renderers shape the UI
+//   • Routed pages (lib/router): chat at / and /chat/:threadId, a voice‑only
+//     kiosk, history and settings; requests go through use-assistant
+// ---------------------------------------------------------------------------
+
+import { useState, useRef, useEffect } from "react";
+import type { FC } from "react";
+
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { toast } from "sonner";
+import {
+  Mic,
+  Square,
+  Users,
+  Keyboard,
+  MessageSquarePlus,
+  X,
+  Command,
+  VolumeX,
+  CalendarPlus,
+  ChartColumn,
+} from "lucide-react";
+
+import { MessageList } from "@/components/message-list";
+import { ThreadSidebar } from "@/components/thread-sidebar";
+import { EnvironmentSwitcher } from "@/components/environment-switcher";
+import { VoiceSettings } from "@/components/voice-settings";
+import { ShortcutsDialog } from "@/components/shortcuts-dialog";
+import { RecordingMeter } from "@/components/recording-meter";
+import { EventFormDialog } from "@/components/event-form";
+import { PendingActionDialog } from "@/components/pending-action-dialog";
+import { AttachmentBadge, IcsAttachButton, IcsDropZone } from "@/components/ics-import";
+import { TimeZoneSettings } from "@/components/time-zone-settings";
+import { InsightsDialog } from "@/components/insights-dashboard";
+import { AgentIcon, AgentSwitcher, agentIcon } from "@/components/agent-switcher";
+import { AppNav } from "@/components/app-nav";
+import { useAssistant } from "@/hooks/use-assistant";
+import { useThreads } from "@/hooks/use-threads";
+import { useRecorder } from "@/hooks/use-recorder";
+import { useHotkeys, usePushToTalk } from "@/hooks/use-hotkeys";
+import { useTimeZones } from "@/hooks/use-time-zone";
+import { awaitingDecision, createMessage } from "@/lib/conversation";
+import type { Attachment } from "@/lib/conversation";
+import type { EventAction } from "@/lib/api";
+import { toWireEvent } from "@/lib/events";
+import type { CalendarEvent } from "@/lib/events";
+import { describeEventAction } from "@/lib/event-form";
+import { activeAgent, findAgent, useAgents } from "@/lib/agents";
+import type { AgentDefinition } from "@/lib/agents";
+import { chatPath, navigate } from "@/lib/router";
+import { useSettings } from "@/lib/settings";
+import { SHORTCUTS, formatCombo } from "@/lib/shortcuts";
+
+// ‑‑‑ Component -------------------------------------------------------------
+export const AgentAudio: FC<{
+  /** The saved conversation to open (`/chat/:threadId`); none starts a new one. */
+  threadId?: string;
+}> = ({ threadId }) => {
+  type Mode = AgentDefinition["modes"][number];
+  const [preferredMode, setMode] = useState<Mode>("voice");
+
+  const selectedAgent = useAgents(activeAgent);
+  const setAgent = useAgents((s) => s.setAgent);
+  const threads = useThreads(selectedAgent.id);
+  const { messages } = threads;
+  // an open conversation stays with its agent; threads from before the
+  // registry belong to the default one
+  const activeThread = threads.threads.find((t) => t.id === threads.activeId);
+  const agent = activeThread ? findAgent(activeThread.agentId) : selectedAgent;
+  const mode: Mode = agent.modes.includes(preferredMode) ? preferredMode : agent.modes[0];
+  const hasEvents = agent.renderers.includes("events");
+  const hasActions = agent.renderers.includes("actions");
+  const [textQuery, setTextQuery] = useState<string>("");
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const [insightsOpen, setInsightsOpen] = useState(false);
+  // event form: closed, or open on an event (undefined = new)
+  const [eventForm, setEventForm] = useState<{ event?: CalendarEvent } | null>(null);
+  // imported .ics events waiting to go out with the next request
+  const [attachment, setAttachment] = useState<Attachment | null>(null);
+  const voice = useSettings((st) => st.voice);
+  const mic = useSettings((st) => st.mic);
+  const { timeZone } = useTimeZones();
+
+  const assistant = useAssistant(threads);
+  const { isLoading, draft, retryNote, playback, isSpeaking } = assistant;
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  /* ----- Routing ----- */
+  // the URL names the open conversation: /chat/:threadId, or / for a new one
+  const { startNew, select, activeIdRef } = threads;
+  useEffect(() => {
+    if (!threadId) {
+      startNew();
+      return;
+    }
+    if (threadId === activeIdRef.current) return;
+    select(threadId).then((thread) => {
+      if (thread) {
+        setAgent(findAgent(thread.agentId).id);
+        return;
+      }
+      toast.error("Conversation not found.");
+      navigate(chatPath(), { replace: true });
+    });
+  }, [threadId, startNew, select, activeIdRef, setAgent]);
+
+  // a new conversation gets its URL with its first turn
+  useEffect(() => {
+    if (threads.activeId) navigate(chatPath(threads.activeId), { replace: true });
+  }, [threads.activeId]);
+
+  /** A conversation belongs to one agent, so switching starts a new one. */
+  const switchAgent = (next: AgentDefinition) => {
+    setAgent(next.id);
+    if (!next.renderers.includes("events")) setAttachment(null);
+    if (next.id !== agent.id) navigate(chatPath());
+  };
+
+  const removeThread = (id: string) => {
+    if (id === threads.activeId) navigate(chatPath(), { replace: true });
+    threads.remove(id);
+  };
+
+  /* ----- Requests ----- */
+  const sendAudio = (blob: Blob) => {
+    const message = createMessage("user", { audio: blob, attachment: attachment ?? undefined });
+    setAttachment(null);
+    return assistant.submit(message);
+  };
+
+  /** Sends the text input, or `text` (e.g. a corrected transcript) if given. */
+  const sendText = async (text?: string) => {
+    const query = (text ?? textQuery).trim();
+    if (!query) {
+      toast.error("Please enter a request.");
+      return;
+    }
+    if (text === undefined) setTextQuery("");
+    const message = createMessage("user", { text: query, attachment: attachment ?? undefined });
+    setAttachment(null);
+    await assistant.submit(message);
+  };
+
+  /** Submits the event form as a structured action turn. */
+  const sendEventAction = async (event: CalendarEvent) => {
+    const action: EventAction = {
+      type: event.id ? "update_event" : "create_event",
+      event: toWireEvent(event),
+    };
+    const message = createMessage("user", {
+      text: describeEventAction(action.type, event, timeZone),
+      action,
+    });
+    await assistant.submit(message);
+  };
+
+  /* ----- Voice recording ----- */
+  const recorder = useRecorder({
+    onRecorded: sendAudio,
+    // barge‑in: the assistant never talks over the user
+    onStart: () => (voice.bargeIn === "stop" ? playback.stop() : playback.duck()),
+    onSpeechStart: () => playback.stop(),
+    onStop: () => playback.restore(),
+    voice,
+    mic,
+  });
+  const { isRecording } = recorder;
+
+  /* ----- Keyboard ----- */
+  const pushToTalk = useSettings((st) => st.shortcuts.pushToTalk);
+
+  usePushToTalk(pushToTalk, {
+    enabled: mode === "voice" && !isLoading && !shortcutsOpen,
+    onPress: recorder.start,
+    onRelease: recorder.stop,
+  });
+
+  const focusInput = () => {
+    if (!agent.modes.includes("text")) return;
+    setMode("text");
+    // the input only exists once text mode has rendered
+    requestAnimationFrame(() => inputRef.current?.focus());
+  };
+
+  useHotkeys([
+    {
+      ...SHORTCUTS.toggleMode,
+      enabled: !isRecording && agent.modes.length > 1,
+      handler: () => setMode((m) => (m === "voice" ? "text" : "voice")),
+    },
+    { ...SHORTCUTS.focusInput, handler: focusInput },
+    { ...SHORTCUTS.replayAudio, handler: assistant.replayLastAnswer },
+    {
+      ...SHORTCUTS.cancelRequest,
+      enabled: (isLoading || isSpeaking) && !shortcutsOpen,
+      handler: () => (isLoading ? assistant.cancel() : playback.stop()),
+    },
+    { ...SHORTCUTS.showShortcuts, handler: () => setShortcutsOpen(true) },
+  ]);
+
+  /* ----- JSX ----- */
+  const isBusy = isLoading || isRecording;
+  const pending = hasActions && !isLoading ? awaitingDecision(messages) : undefined;
+  const examples = agent.examples;
+
+  return (
+    <SidebarProvider>
+      <ThreadSidebar
+        threads={threads.threads}
+        activeId={threads.activeId}
+        disabled={isBusy}
+        onSelect={(id) => navigate(chatPath(id))}
+        onNew={() => navigate(chatPath())}
+        onRename={threads.rename}
+        onTogglePin={threads.togglePin}
+        onDelete={removeThread}
+      />
+      <SidebarInset>
+        <div className="min-h-screen bg-background text-foreground p-4 md:p-6 lg:p-8">
+          <SidebarTrigger className="absolute left-2 top-2" />
+          <div className="absolute right-2 top-2 flex items-center gap-1">
+            <AppNav />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShortcutsOpen(true)}
+              title="Keyboard shortcuts (?)"
+            >
+              <Command className="h-4 w-4" />
+            </Button>
+            {hasEvents && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setInsightsOpen(true)}
+                title="Meeting insights"
+              >
+                <ChartColumn className="h-4 w-4" />
+              </Button>
+            )}
+            <TimeZoneSettings />
+            <AgentSwitcher value={agent} onChange={switchAgent} disabled={isBusy} />
+            <EnvironmentSwitcher disabled={isBusy} />
+          </div>
+          <ShortcutsDialog open={shortcutsOpen} onOpenChange={setShortcutsOpen} />
+          <InsightsDialog open={insightsOpen} onOpenChange={setInsightsOpen} agent={agent} />
+          <EventFormDialog
+            open={eventForm !== null}
+            onOpenChange={(open) => !open && setEventForm(null)}
+            event={eventForm?.event}
+            onSubmit={sendEventAction}
+          />
+          <PendingActionDialog
+            action={pending?.pendingAction}
+            onDecide={(approved) => pending && assistant.decide(pending, approved)}
+          />
+          <IcsDropZone
+            onImport={setAttachment}
+            disabled={isBusy || !hasEvents}
+            className="max-w-4xl mx-auto space-y-6"
+          >
+            {/* Header */}
+            <header className="text-center space-y-2">
+              <div className="flex items-center justify-center gap-2 mb-4">
+                <AgentIcon icon={agent.icon} className="h-8 w-8 text-primary" />
+                <h1 className="text-3xl font-bold">{agent.name}</h1>
+              </div>
+              <p className="text-muted-foreground text-lg">{agent.description}</p>
+            </header>
+
+            {/* Mode selector */}
+            <div className="flex flex-wrap justify-center gap-2">
+              {agent.modes.includes("voice") && (
+                <Button
+                  variant={mode === "voice" ? "default" : "outline"}
+                  onClick={() => setMode("voice")}
+                >
+                  🎤 Voice
+                </Button>
+              )}
+              {agent.modes.includes("text") && (
+                <Button
+                  variant={mode === "text" ? "default" : "outline"}
+                  onClick={() => setMode("text")}
+                >
+                  ⌨️ Text
+                </Button>
+              )}
+              {hasEvents && (
+                <Button
+                  variant="outline"
+                  onClick={() => setEventForm({})}
+                  disabled={isBusy}
+                >
+                  <CalendarPlus className="h-4 w-4" /> New event
+                </Button>
+              )}
+            </div>
+
+            {/* Conversation thread */}
+            {messages.length > 0 || isLoading ? (
+              <Card className="gap-0 py-0">
+                <CardHeader className="flex items-center justify-between border-b py-4">
+                  <CardTitle className="flex items-center gap-2">
+                    <AgentIcon icon={agent.icon} className="h-5 w-5 text-green-500" />{" "}
+                    Conversation
+                  </CardTitle>
+                  <div className="flex gap-1">
+                    {isSpeaking && (
+                      <Button variant="ghost" size="sm" onClick={() => playback.stop()}>
+                        <VolumeX className="h-4 w-4" /> Stop speaking
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => navigate(chatPath())}
+                      disabled={isBusy}
+                    >
+                      <MessageSquarePlus className="h-4 w-4" /> New
+                    </Button>
+                  </div>
+                </CardHeader>
+                <MessageList
+                  messages={messages}
+                  isLoading={isLoading}
+                  draft={draft}
+                  playback={playback}
+                  onResend={assistant.resend}
+                  onResubmit={sendText}
+                  onEditEvent={hasEvents ? (event) => setEventForm({ event }) : undefined}
+                  renderers={agent.renderers}
+                  agentIcon={agentIcon(agent.icon)}
+                />
+              </Card>
+            ) : (
+              /* Initial guidance */
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Users className="h-5 w-5" /> Getting Started
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {examples.length > 0 && (
+                    <>
+                      <p>Examples:</p>
+                      <ul className="list-disc pl-4 space-y-1 text-muted-foreground">
+                        {examples.map((example) => (
+                          <li key={example}>"{example}"</li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    Follow‑ups use the earlier turns as context.
+                    {hasEvents &&
+                      ' Drop an .ics file here to ask about its events, e.g. "do any of these conflict with my week?".'}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Processing */}
+            {isLoading && (
+              <Card>
+                <CardHeader className="flex items-center justify-between">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2">
+                      <AgentIcon icon={agent.icon} className="h-5 w-5 animate-pulse" />{" "}
+                      Processing…
+                    </CardTitle>
+                    {retryNote && <CardDescription>{retryNote}</CardDescription>}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={assistant.cancel}>
+                    <X className="h-4 w-4" /> Cancel
+                  </Button>
+                </CardHeader>
+              </Card>
+            )}
+
+            {/* Attached .ics events */}
+            {attachment && (
+              <div className="flex justify-center">
+                <AttachmentBadge attachment={attachment} onRemove={() => setAttachment(null)} />
+              </div>
+            )}
+
+            {/* Voice controls */}
+            {mode === "voice" && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Mic className="h-5 w-5" /> Voice Request
+                  </CardTitle>
+                  <CardDescription>
+                    {voice.handsFree && !isRecording
+                      ? "Tap the mic and speak – it sends when you pause."
+                      : `Tap the mic to ${isRecording ? "stop" : "start"} recording.`}{" "}
+                    Or hold {formatCombo(pushToTalk).join(" + ")} to talk.
+                  </CardDescription>
+                  <CardAction>
+                    <VoiceSettings disabled={isRecording} />
+                  </CardAction>
+                </CardHeader>
+                <CardContent className="flex flex-col items-center gap-4">
+                  <Button
+                    size="lg"
+                    onClick={isRecording ? recorder.stop : recorder.start}
+                    disabled={isLoading}
+                    className="rounded-full h-16 w-16 p-0"
+                    variant={isRecording ? "destructive" : "default"}
+                  >
+                    {isRecording ? <Square className="h-8 w-8" /> : <Mic className="h-8 w-8" />}
+                  </Button>
+                  {isRecording && recorder.analyser && recorder.startedAt && (
+                    <RecordingMeter analyser={recorder.analyser} startedAt={recorder.startedAt} />
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Text controls */}
+            {mode === "text" && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Keyboard className="h-5 w-5" /> Text Request
+                  </CardTitle>
+                  <CardDescription>Type your request and hit Send.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex gap-2">
+                    <Input
+                      ref={inputRef}
+                      value={textQuery}
+                      onChange={(e) => setTextQuery(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && sendText()}
+                      placeholder={`${examples[0] ?? "Type your request"}…`}
+                      disabled={isLoading}
+                      className="flex-1"
+                    />
+                    {hasEvents && (
+                      <IcsAttachButton onImport={setAttachment} disabled={isLoading} />
+                    )}
+                    <Button onClick={() => sendText()} disabled={isLoading || !textQuery.trim()}>
+                      Send
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </IcsDropZone>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default AgentAudio;
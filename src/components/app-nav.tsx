@@ -0,0 +1,86 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// App navigation – links between the pages of the router (lib/router)
+// ---------------------------------------------------------------------------
+
+import type { ComponentProps, FC, ReactNode } from "react";
+
+import { Button } from "@/components/ui/button";
+import { History, MessageSquare, MicVocal, Settings } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+
+import { navigate, useRoute } from "@/lib/router";
+import type { RouteName } from "@/lib/router";
+import { cn } from "@/lib/utils";
+
+const PAGES: { name: RouteName; path: string; label: string; icon: LucideIcon }[] = [
+  { name: "chat", path: "/", label: "Chat", icon: MessageSquare },
+  { name: "kiosk", path: "/kiosk", label: "Voice kiosk", icon: MicVocal },
+  { name: "history", path: "/history", label: "History", icon: History },
+  { name: "settings", path: "/settings", label: "Settings", icon: Settings },
+];
+
+/** An `<a>` that navigates in place; modified clicks still open a new tab. */
+export const Link: FC<ComponentProps<"a"> & { to: string }> = ({ to, onClick, ...props }) => (
+  <a
+    {...props}
+    href={to}
+    onClick={(e) => {
+      onClick?.(e);
+      if (e.defaultPrevented || e.button !== 0) return;
+      if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      e.preventDefault();
+      navigate(to);
+    }}
+  />
+);
+
+export const AppNav: FC<{ className?: string }> = ({ className }) => {
+  const route = useRoute();
+
+  return (
+    <nav aria-label="Pages" className={cn("flex items-center gap-1", className)}>
+      {PAGES.map(({ name, path, label, icon: Icon }) => {
+        const current = route.name === name;
+        return (
+          <Button
+            key={name}
+            asChild
+            variant={current ? "secondary" : "ghost"}
+            size="icon"
+            title={label}
+          >
+            <Link to={path} aria-current={current ? "page" : undefined}>
+              <Icon className="h-4 w-4" />
+            </Link>
+          </Button>
+        );
+      })}
+    </nav>
+  );
+};
+
+/** Frame of the pages besides the chat: the navigation, a header and the content. */
+export const PageLayout: FC<{
+  title: string;
+  description?: string;
+  icon: LucideIcon;
+  children: ReactNode;
+}> = ({ title, description, icon: Icon, children }) => (
+  <div className="relative min-h-screen bg-background text-foreground p-4 md:p-6 lg:p-8">
+    <AppNav className="absolute right-2 top-2" />
+    <div className="max-w-4xl mx-auto space-y-6">
+      <header className="text-center space-y-2">
+        <div className="flex items-center justify-center gap-2 mb-4">
+          <Icon className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl font-bold">{title}</h1>
+        </div>
+        {description && <p className="text-muted-foreground text-lg">{description}</p>}
+      </header>
+      {children}
+    </div>
+  </div>
+);
+
+export default AppNav;
@@ -0,0 +1,60 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Environment switcher – point the running build at local / staging / prod
+// ---------------------------------------------------------------------------
+
+import type { FC } from "react";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Server } from "lucide-react";
+import { toast } from "sonner";
+
+import { ENVIRONMENTS, activeEnvironment, useConfig } from "@/lib/config";
+import type { EnvironmentName } from "@/lib/config";
+
+export const EnvironmentSwitcher: FC<{
+  disabled?: boolean;
+  className?: string;
+}> = ({ disabled = false, className }) => {
+  const environments = useConfig((s) => s.environments);
+  const active = useConfig(activeEnvironment);
+  const setEnvironment = useConfig((s) => s.setEnvironment);
+
+  const onChange = (value: string) => {
+    const name = value as EnvironmentName;
+    setEnvironment(name);
+    toast(`Using ${environments[name].label} backend`, {
+      description: environments[name].apiUrl,
+      duration: 2000,
+    });
+  };
+
+  return (
+    <Select value={active} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger size="sm" className={className} title={environments[active].apiUrl}>
+        <Server />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ENVIRONMENTS.map((name) => (
+          <SelectItem
+            key={name}
+            value={name}
+            disabled={!environments[name].apiUrl}
+          >
+            {environments[name].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default EnvironmentSwitcher;
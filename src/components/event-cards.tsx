@@ -0,0 +1,246 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Event cards – structured `events` of an answer, one card per meeting
+// ---------------------------------------------------------------------------
+
+import type { FC } from "react";
+
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from "@/components/ui/hover-card";
+import {
+  CalendarPlus,
+  Clock,
+  Copy,
+  Crown,
+  ExternalLink,
+  Globe,
+  MapPin,
+  Pencil,
+  Repeat,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { useTimeZones } from "@/hooks/use-time-zone";
+import { cn } from "@/lib/utils";
+import {
+  attendeeLabel,
+  eventStart,
+  formatEventTime,
+  initials,
+} from "@/lib/events";
+import type { Attendee, CalendarEvent, ResponseStatus } from "@/lib/events";
+import { describeRecurrenceLines } from "@/lib/recurrence";
+import { toIcs } from "@/lib/ics";
+import { zoneCity } from "@/lib/timezone";
+
+/** Avatars shown before the rest collapse into "+N". */
+const MAX_AVATARS = 5;
+
+const STATUS_LABEL: Record<ResponseStatus, string> = {
+  accepted: "Accepted",
+  declined: "Declined",
+  tentative: "Maybe",
+  needsAction: "No response",
+};
+
+const STATUS_RING: Record<ResponseStatus, string> = {
+  accepted: "ring-green-500",
+  declined: "ring-destructive opacity-50",
+  tentative: "ring-amber-500",
+  needsAction: "ring-border",
+};
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+async function copyAsIcs(event: CalendarEvent, timeZone: string) {
+  try {
+    await navigator.clipboard.writeText(toIcs([event], { timeZone }));
+    toast.success("Event copied as iCalendar text.");
+  } catch {
+    toast.error("Could not access the clipboard.");
+  }
+}
+
+const AttendeeAvatar: FC<{ attendee: Attendee }> = ({ attendee }) => (
+  <HoverCard openDelay={200}>
+    <HoverCardTrigger asChild>
+      <button type="button" className="rounded-full" aria-label={attendeeLabel(attendee)}>
+        <Avatar
+          className={cn(
+            "size-7 ring-2 ring-offset-1 ring-offset-background",
+            STATUS_RING[attendee.status ?? "needsAction"]
+          )}
+        >
+          <AvatarFallback className="text-[10px] font-medium">
+            {initials(attendee)}
+          </AvatarFallback>
+        </Avatar>
+      </button>
+    </HoverCardTrigger>
+    <HoverCardContent className="w-64 space-y-1">
+      <p className="flex items-center gap-1 font-medium">
+        {attendeeLabel(attendee)}
+        {attendee.organizer && <Crown className="h-3 w-3 text-amber-500" />}
+      </p>
+      {attendee.name && attendee.email && (
+        <p className="truncate text-sm text-muted-foreground">{attendee.email}</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        {attendee.organizer ? "Organizer · " : ""}
+        {STATUS_LABEL[attendee.status ?? "needsAction"]}
+      </p>
+    </HoverCardContent>
+  </HoverCard>
+);
+
+const Attendees: FC<{ attendees: Attendee[] }> = ({ attendees }) => {
+  const shown = attendees.slice(0, MAX_AVATARS);
+  const hidden = attendees.slice(MAX_AVATARS);
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {shown.map((a, i) => (
+        <AttendeeAvatar key={a.email ?? `${a.name}-${i}`} attendee={a} />
+      ))}
+      {hidden.length > 0 && (
+        <HoverCard openDelay={200}>
+          <HoverCardTrigger asChild>
+            <Badge variant="secondary" className="cursor-default">
+              +{hidden.length}
+            </Badge>
+          </HoverCardTrigger>
+          <HoverCardContent className="w-64">
+            <ul className="space-y-1 text-sm">
+              {hidden.map((a, i) => (
+                <li key={a.email ?? i} className="truncate">
+                  {attendeeLabel(a)}
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {STATUS_LABEL[a.status ?? "needsAction"]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </HoverCardContent>
+        </HoverCard>
+      )}
+    </div>
+  );
+};
+
+// ‑‑‑ Components ------------------------------------------------------------
+export const EventCard: FC<{
+  event: CalendarEvent;
+  /** Opens the event form; events without an `id` are proposals to create. */
+  onEdit?: (event: CalendarEvent) => void;
+  className?: string;
+}> = ({ event, onEdit, className }) => {
+  const { timeZone, secondaryTimeZone } = useTimeZones();
+  return (
+    <Card className={cn("gap-3 py-4", className)}>
+      <CardHeader className="px-4">
+        <CardTitle className="leading-snug">{event.title}</CardTitle>
+        <CardDescription className="flex items-center gap-1">
+          <Clock className="h-3.5 w-3.5 shrink-0" /> {formatEventTime(event, timeZone)}
+        </CardDescription>
+        {secondaryTimeZone && !event.allDay && (
+          <CardDescription className="flex items-center gap-1 text-xs">
+            <Globe className="h-3.5 w-3.5 shrink-0" />{" "}
+            {formatEventTime(event, secondaryTimeZone)} · {zoneCity(secondaryTimeZone)}
+          </CardDescription>
+        )}
+        {event.recurrence && (
+          <CardDescription className="flex items-center gap-1">
+            <Repeat className="h-3.5 w-3.5 shrink-0" /> {describeRecurrenceLines(event.recurrence)}
+          </CardDescription>
+        )}
+        <CardAction className="flex">
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-8"
+              onClick={() => onEdit(event)}
+              title={event.id ? "Edit event" : "Add to calendar"}
+            >
+              {event.id ? <Pencil className="h-4 w-4" /> : <CalendarPlus className="h-4 w-4" />}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8"
+            onClick={() => copyAsIcs(event, timeZone)}
+            title="Copy as iCalendar"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          {event.link && (
+            <Button variant="ghost" size="icon" className="size-8" asChild>
+              <a href={event.link} target="_blank" rel="noreferrer" title="Open in calendar">
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            </Button>
+          )}
+        </CardAction>
+      </CardHeader>
+      {(event.location ||
+        event.calendarId ||
+        event.description ||
+        event.attendees.length > 0) && (
+        <CardContent className="space-y-3 px-4 text-sm">
+          {(event.location || event.calendarId) && (
+            <div className="flex flex-wrap items-center gap-2">
+              {event.location && (
+                <span className="flex min-w-0 items-center gap-1 text-muted-foreground">
+                  <MapPin className="h-3.5 w-3.5 shrink-0" />
+                  <span className="truncate">{event.location}</span>
+                </span>
+              )}
+              {event.calendarId && <Badge variant="outline">{event.calendarId}</Badge>}
+            </div>
+          )}
+          {event.description && (
+            <p className="line-clamp-2 whitespace-pre-wrap text-muted-foreground">
+              {event.description}
+            </p>
+          )}
+          {event.attendees.length > 0 && <Attendees attendees={event.attendees} />}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+/** Events in start order. */
+export const EventList: FC<{
+  events: CalendarEvent[];
+  onEdit?: (event: CalendarEvent) => void;
+  className?: string;
+}> = ({ events, onEdit, className }) => {
+  const sorted = [...events].sort(
+    (a, b) => eventStart(a).getTime() - eventStart(b).getTime()
+  );
+  return (
+    <div className={cn("grid gap-3", className)}>
+      {sorted.map((e, i) => (
+        <EventCard key={e.id ?? `${e.start}-${i}`} event={e} onEdit={onEdit} />
+      ))}
+    </div>
+  );
+};
+
+export default EventList;
@@ -0,0 +1,509 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Event form – create an event, or edit one the assistant answered/proposed
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from "react";
+import type { FC } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import type { Control } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Calendar } from "@/components/ui/calendar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CalendarIcon, X } from "lucide-react";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { z } from "zod";
+
+import { useTimeZones } from "@/hooks/use-time-zone";
+import { cn } from "@/lib/utils";
+import type { CalendarEvent } from "@/lib/events";
+import { EventFormSchema, toCalendarEvent, toFormValues } from "@/lib/event-form";
+import type { EventFormValues } from "@/lib/event-form";
+import { WEEKDAYS } from "@/lib/recurrence";
+import { zoneAbbreviation, zoneCity } from "@/lib/timezone";
+
+const REPEAT_LABEL: Record<EventFormValues["repeat"], string> = {
+  none: "Does not repeat",
+  DAILY: "Daily",
+  WEEKLY: "Weekly",
+  MONTHLY: "Monthly",
+  YEARLY: "Yearly",
+  custom: "Custom rule",
+};
+
+const UNIT_LABEL: Record<string, string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+  YEARLY: "year(s)",
+};
+
+const isEmail = (value: string) => z.string().email().safeParse(value).success;
+
+// ‑‑‑ Fields ---------------------------------------------------------------
+const DatePicker: FC<{
+  value?: Date;
+  onChange: (date: Date) => void;
+  disabled?: (date: Date) => boolean;
+}> = ({ value, onChange, disabled }) => {
+  const [open, setOpen] = useState(false);
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <FormControl>
+          <Button
+            variant="outline"
+            className={cn("w-full justify-start font-normal", !value && "text-muted-foreground")}
+          >
+            <CalendarIcon className="h-4 w-4" />
+            {value ? format(value, "EEE d MMM yyyy") : "Pick a date"}
+          </Button>
+        </FormControl>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={value}
+          defaultMonth={value}
+          weekStartsOn={1}
+          disabled={disabled}
+          onSelect={(date) => {
+            if (date) onChange(date);
+            setOpen(false);
+          }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+/** Email chips; Enter, comma or blur adds, Backspace on empty removes. */
+const AttendeesInput: FC<{
+  value: string[];
+  onChange: (emails: string[]) => void;
+}> = ({ value, onChange }) => {
+  const [text, setText] = useState("");
+  const [invalid, setInvalid] = useState(false);
+
+  const add = () => {
+    const emails = text.split(/[\s,;]+/).filter(Boolean);
+    if (!emails.length) return;
+    if (!emails.every(isEmail)) {
+      setInvalid(true);
+      return;
+    }
+    const known = new Set(value.map((e) => e.toLowerCase()));
+    onChange([...value, ...emails.filter((e) => !known.has(e.toLowerCase()))]);
+    setText("");
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex min-h-9 flex-wrap items-center gap-1 rounded-md border px-2 py-1 focus-within:ring-[3px] focus-within:ring-ring/50",
+        invalid && "border-destructive"
+      )}
+    >
+      {value.map((email) => (
+        <Badge key={email} variant="secondary" className="gap-1 pr-1">
+          {email}
+          <button
+            type="button"
+            aria-label={`Remove ${email}`}
+            className="rounded-sm hover:bg-muted-foreground/20"
+            onClick={() => onChange(value.filter((e) => e !== email))}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <input
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setInvalid(false);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault();
+            add();
+          } else if (e.key === "Backspace" && !text && value.length) {
+            onChange(value.slice(0, -1));
+          }
+        }}
+        onBlur={add}
+        placeholder={value.length ? "" : "name@example.com"}
+        className="min-w-32 flex-1 bg-transparent py-0.5 text-sm outline-none"
+      />
+    </div>
+  );
+};
+
+const RecurrenceFields: FC<{ control: Control<EventFormValues> }> = ({ control }) => {
+  const [repeat, ends, kept] = useWatch({ control, name: ["repeat", "ends", "keptRecurrence"] });
+  const startDate = useWatch({ control, name: "startDate" });
+  const rule = repeat !== "none" && repeat !== "custom";
+  const hasCustomRule = kept.some((l) => /^RRULE:/i.test(l));
+
+  return (
+    <div className="space-y-3">
+      <FormField
+        control={control}
+        name="repeat"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Repeat</FormLabel>
+            <Select value={field.value} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {(Object.keys(REPEAT_LABEL) as EventFormValues["repeat"][])
+                  .filter((r) => r !== "custom" || hasCustomRule)
+                  .map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {REPEAT_LABEL[r]}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            {repeat === "custom" && (
+              <FormDescription className="break-all font-mono text-xs">
+                {kept.join(" ")}
+              </FormDescription>
+            )}
+          </FormItem>
+        )}
+      />
+
+      {rule && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <FormField
+            control={control}
+            name="interval"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Every</FormLabel>
+                <div className="flex items-center gap-2">
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={99}
+                      className="w-20"
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <span className="text-sm text-muted-foreground">{UNIT_LABEL[repeat]}</span>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="ends"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ends</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="never">Never</SelectItem>
+                    <SelectItem value="on">On a date</SelectItem>
+                    <SelectItem value="after">After a number of times</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+        </div>
+      )}
+
+      {repeat === "WEEKLY" && (
+        <FormField
+          control={control}
+          name="byDay"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>On</FormLabel>
+              <FormControl>
+                <ToggleGroup
+                  type="multiple"
+                  variant="outline"
+                  size="sm"
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  className="w-full"
+                >
+                  {WEEKDAYS.map((d) => (
+                    <ToggleGroupItem key={d} value={d} aria-label={d}>
+                      {d.charAt(0)}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </FormControl>
+              <FormDescription>None selected repeats on the start day.</FormDescription>
+            </FormItem>
+          )}
+        />
+      )}
+
+      {rule && ends === "on" && (
+        <FormField
+          control={control}
+          name="until"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Last date</FormLabel>
+              <DatePicker
+                value={field.value}
+                onChange={field.onChange}
+                disabled={(d) => d < startDate}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      {rule && ends === "after" && (
+        <FormField
+          control={control}
+          name="count"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Occurrences</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  max={999}
+                  className="w-24"
+                  {...field}
+                  value={field.value ?? ""}
+                  onChange={(e) =>
+                    field.onChange(
+                      Number.isNaN(e.target.valueAsNumber) ? undefined : e.target.valueAsNumber
+                    )
+                  }
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+    </div>
+  );
+};
+
+// ‑‑‑ Component -------------------------------------------------------------
+export const EventFormDialog: FC<{
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Event to edit or a proposal to fill in from; empty for a new event. */
+  event?: CalendarEvent;
+  onSubmit: (event: CalendarEvent) => void;
+}> = ({ open, onOpenChange, event, onSubmit }) => {
+  const { timeZone } = useTimeZones();
+  const form = useForm<EventFormValues>({
+    resolver: zodResolver(EventFormSchema),
+    defaultValues: toFormValues(event, timeZone),
+  });
+  const { control } = form;
+  const allDay = useWatch({ control, name: "allDay" });
+  const isUpdate = !!event?.id;
+
+  // every opening starts from the event it was opened for
+  useEffect(() => {
+    if (open) form.reset(toFormValues(event, timeZone));
+  }, [open, event, timeZone, form]);
+
+  const submit = form.handleSubmit((values) => {
+    onSubmit(toCalendarEvent(values, event, timeZone));
+    onOpenChange(false);
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isUpdate ? "Edit event" : "New event"}</DialogTitle>
+          <DialogDescription>
+            {isUpdate
+              ? "Changes are sent to the assistant to apply."
+              : "The assistant adds the event to your calendar."}{" "}
+            Times are in {zoneCity(timeZone)} ({zoneAbbreviation(timeZone)}).
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={submit} className="space-y-4" noValidate>
+            <FormField
+              control={control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input autoFocus placeholder="Team sync" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={control}
+              name="allDay"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <FormLabel>All day</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {(["start", "end"] as const).map((edge) => (
+              <div key={edge} className="grid grid-cols-[1fr_auto] items-start gap-2">
+                <FormField
+                  control={control}
+                  name={`${edge}Date`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{edge === "start" ? "Starts" : "Ends"}</FormLabel>
+                      <DatePicker
+                        value={field.value}
+                        onChange={(date) => {
+                          // moving the start moves the end along with it
+                          if (edge === "start") {
+                            const shift = differenceInCalendarDays(date, field.value);
+                            const end = form.getValues("endDate");
+                            form.setValue("endDate", addDays(end, shift));
+                          }
+                          field.onChange(date);
+                        }}
+                        disabled={
+                          edge === "end" ? (d) => d < form.getValues("startDate") : undefined
+                        }
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {!allDay && (
+                  <FormField
+                    control={control}
+                    name={`${edge}Time`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="invisible">Time</FormLabel>
+                        <FormControl>
+                          <Input type="time" className="w-28" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            ))}
+
+            <RecurrenceFields control={control} />
+
+            <FormField
+              control={control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Location</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Room, address or video link" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={control}
+              name="attendees"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Guests</FormLabel>
+                  <AttendeesInput value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">{isUpdate ? "Save changes" : "Create event"}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventFormDialog;
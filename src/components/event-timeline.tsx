@@ -0,0 +1,407 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Event timeline – day / week time grid and month overview of an answer
+// ---------------------------------------------------------------------------
+// Days and hours are those of the display time zone; with a secondary zone
+// set, the time grid gets a second hour gutter in that zone.
+// ---------------------------------------------------------------------------
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { FC } from "react";
+import type { DayButtonProps } from "react-day-picker";
+
+import { Calendar, CalendarDayButton } from "@/components/ui/calendar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from "@/components/ui/hover-card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInMinutes,
+  format,
+  isSameDay,
+  setHours,
+  startOfDay,
+} from "date-fns";
+
+import { EventCard } from "@/components/event-cards";
+import { useTimeZones } from "@/hooks/use-time-zone";
+import { cn } from "@/lib/utils";
+import { eventEnd, eventStart } from "@/lib/events";
+import type { CalendarEvent } from "@/lib/events";
+import {
+  eventsOnDay,
+  hourRange,
+  initialAnchor,
+  initialView,
+  layoutDay,
+  visibleDays,
+} from "@/lib/timeline";
+import type { PlacedEvent, TimelineView } from "@/lib/timeline";
+import { fromZonedDate, toZonedDate, zoneAbbreviation } from "@/lib/timezone";
+
+const HOUR_PX = 44;
+/** Dots under a month‑view day before the rest is implied. */
+const MAX_DOTS = 3;
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+/** Current time in `timeZone`, refreshed every minute for the "now" line. */
+function useNow(timeZone: string): Date {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(id);
+  }, []);
+  return useMemo(() => toZonedDate(now, timeZone), [now, timeZone]);
+}
+
+/** "HH:mm" in `secondary` of hour `hour` of `day` in `timeZone`. */
+const secondaryHour = (day: Date, hour: number, timeZone: string, secondary: string) =>
+  format(toZonedDate(fromZonedDate(setHours(day, hour), timeZone), secondary), "HH:mm");
+
+const dayKey = (d: Date) => format(d, "yyyy-MM-dd");
+
+/** Event details on hover, reusing the card from the list view. */
+const EventHover: FC<{ event: CalendarEvent; children: React.ReactNode }> = ({
+  event,
+  children,
+}) => (
+  <HoverCard openDelay={150}>
+    <HoverCardTrigger asChild>{children}</HoverCardTrigger>
+    <HoverCardContent className="w-80 p-0">
+      <EventCard event={event} className="border-0 shadow-none" />
+    </HoverCardContent>
+  </HoverCard>
+);
+
+const EventBlock: FC<{ placed: PlacedEvent; firstHour: number; timeZone: string }> = ({
+  placed,
+  firstHour,
+  timeZone,
+}) => {
+  const { event, top, height, column, columns } = placed;
+  const px = (minutes: number) => (minutes / 60) * HOUR_PX;
+  return (
+    <EventHover event={event}>
+      <button
+        type="button"
+        className={cn(
+          "absolute overflow-hidden rounded-md border-l-4 border-primary bg-primary/15 px-1.5 py-0.5 text-left text-xs hover:bg-primary/25",
+          placed.continuesBefore && "rounded-t-none",
+          placed.continuesAfter && "rounded-b-none"
+        )}
+        style={{
+          top: px(top - firstHour * 60),
+          height: Math.max(px(height) - 2, 14),
+          left: `calc(${(column / columns) * 100}% + 1px)`,
+          width: `calc(${100 / columns}% - 2px)`,
+        }}
+      >
+        <span className="block truncate font-medium">{event.title}</span>
+        {height >= 45 && (
+          <span className="block truncate text-muted-foreground">
+            {format(eventStart(event, timeZone), "HH:mm")}
+            {event.location && ` · ${event.location}`}
+          </span>
+        )}
+      </button>
+    </EventHover>
+  );
+};
+
+// ‑‑‑ Views ----------------------------------------------------------------
+const TimeGrid: FC<{
+  days: Date[];
+  events: CalendarEvent[];
+  timeZone: string;
+  secondaryTimeZone: string | null;
+  onOpenDay: (day: Date) => void;
+}> = ({ days, events, timeZone, secondaryTimeZone, onOpenDay }) => {
+  const now = useNow(timeZone);
+  const placed = useMemo(
+    () => days.map((d) => layoutDay(events, d, timeZone)),
+    [days, events, timeZone]
+  );
+  const allDay = days.map((d) => eventsOnDay(events, d, timeZone).filter((e) => e.allDay));
+  const [firstHour, lastHour] = hourRange(placed);
+  const hours = Array.from({ length: lastHour - firstHour }, (_, i) => firstHour + i);
+  const nowMinutes = differenceInMinutes(now, startOfDay(now));
+  const showNow = nowMinutes >= firstHour * 60 && nowMinutes <= lastHour * 60;
+  const gutters = secondaryTimeZone ? "3rem 3rem" : "3rem";
+  const columns = {
+    gridTemplateColumns: `${gutters} repeat(${days.length}, minmax(0, 1fr))`,
+  };
+  const gutterLabel = (zone: string) => (
+    <div className="self-end truncate pb-1 pr-1 text-right text-[10px] text-muted-foreground">
+      {zoneAbbreviation(zone, days[0])}
+    </div>
+  );
+
+  return (
+    <div className="rounded-md border text-sm">
+      {/* day headers */}
+      <div className="grid border-b" style={columns}>
+        {secondaryTimeZone ? (
+          <>
+            {gutterLabel(secondaryTimeZone)}
+            {gutterLabel(timeZone)}
+          </>
+        ) : (
+          <div />
+        )}
+        {days.map((d) => (
+          <button
+            key={dayKey(d)}
+            type="button"
+            onClick={() => onOpenDay(d)}
+            disabled={days.length === 1}
+            className="border-l py-1.5 text-center hover:bg-muted disabled:hover:bg-transparent"
+          >
+            <span className="block text-xs text-muted-foreground">{format(d, "EEE")}</span>
+            <span
+              className={cn(
+                "inline-flex size-7 items-center justify-center rounded-full font-medium",
+                isSameDay(d, now) && "bg-primary text-primary-foreground"
+              )}
+            >
+              {format(d, "d")}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* all‑day row */}
+      {allDay.some((list) => list.length > 0) && (
+        <div className="grid border-b" style={columns}>
+          {secondaryTimeZone && <div />}
+          <div className="py-1 pr-1 text-right text-[10px] text-muted-foreground">all‑day</div>
+          {allDay.map((list, i) => (
+            <div key={i} className="min-w-0 space-y-0.5 border-l p-0.5">
+              {list.map((e, j) => (
+                <EventHover key={e.id ?? j} event={e}>
+                  <Badge variant="secondary" className="block w-full cursor-default truncate text-left">
+                    {e.title}
+                  </Badge>
+                </EventHover>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* hours */}
+      <div className="max-h-[28rem] overflow-y-auto">
+        <div className="grid" style={columns}>
+          {secondaryTimeZone && (
+            <div className="text-muted-foreground/70">
+              {hours.map((h) => (
+                <div
+                  key={h}
+                  className="-translate-y-1.5 pr-1 text-right text-[10px]"
+                  style={{ height: HOUR_PX }}
+                >
+                  {h > firstHour && secondaryHour(days[0], h, timeZone, secondaryTimeZone)}
+                </div>
+              ))}
+            </div>
+          )}
+          <div>
+            {hours.map((h) => (
+              <div
+                key={h}
+                className="-translate-y-1.5 pr-1 text-right text-[10px] text-muted-foreground"
+                style={{ height: HOUR_PX }}
+              >
+                {h > firstHour && `${String(h).padStart(2, "0")}:00`}
+              </div>
+            ))}
+          </div>
+          {days.map((d, i) => (
+            <div
+              key={dayKey(d)}
+              className="relative border-l"
+              style={{ height: hours.length * HOUR_PX }}
+            >
+              {hours.map((h) => (
+                <div
+                  key={h}
+                  className="border-t border-dashed first:border-t-0"
+                  style={{ height: HOUR_PX }}
+                />
+              ))}
+              {placed[i].map((p, j) => (
+                <EventBlock
+                  key={p.event.id ?? j}
+                  placed={p}
+                  firstHour={firstHour}
+                  timeZone={timeZone}
+                />
+              ))}
+              {showNow && isSameDay(d, now) && (
+                <div
+                  className="pointer-events-none absolute inset-x-0 z-10 border-t-2 border-red-500"
+                  style={{ top: ((nowMinutes - firstHour * 60) / 60) * HOUR_PX }}
+                >
+                  <span className="absolute -left-1 -top-[5px] size-2 rounded-full bg-red-500" />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MonthView: FC<{
+  month: Date;
+  events: CalendarEvent[];
+  timeZone: string;
+  onMonthChange: (month: Date) => void;
+  onOpenDay: (day: Date) => void;
+}> = ({ month, events, timeZone, onMonthChange, onOpenDay }) => {
+  // events per day, multi‑day events counted on every day they touch
+  const counts = useMemo(() => {
+    const map = new Map<string, number>();
+    for (const e of events) {
+      // end is exclusive: a meeting ending at midnight is not on the next day
+      const start = eventStart(e, timeZone);
+      const last = new Date(Math.max(start.getTime(), eventEnd(e, timeZone).getTime() - 1));
+      for (let d = startOfDay(start); d <= last; d = addDays(d, 1)) {
+        map.set(dayKey(d), (map.get(dayKey(d)) ?? 0) + 1);
+      }
+    }
+    return map;
+  }, [events, timeZone]);
+
+  const DayButton = useCallback(
+    ({ children, ...props }: DayButtonProps) => {
+      const count = counts.get(dayKey(props.day.date)) ?? 0;
+      return (
+        <CalendarDayButton {...props}>
+          {children}
+          {count > 0 && (
+            <span className="flex gap-0.5" aria-label={`${count} events`}>
+              {Array.from({ length: Math.min(count, MAX_DOTS) }, (_, i) => (
+                <span key={i} className="size-1 rounded-full bg-primary" />
+              ))}
+            </span>
+          )}
+        </CalendarDayButton>
+      );
+    },
+    [counts]
+  );
+
+  return (
+    <Calendar
+      mode="single"
+      month={month}
+      onMonthChange={onMonthChange}
+      onDayClick={onOpenDay}
+      weekStartsOn={1}
+      modifiers={{ busy: (d) => counts.has(dayKey(d)) }}
+      modifiersClassNames={{ busy: "font-semibold" }}
+      components={{ DayButton }}
+      className="mx-auto w-full rounded-md border [--cell-size:--spacing(10)]"
+      classNames={{ root: "w-full" }}
+    />
+  );
+};
+
+// ‑‑‑ Component -------------------------------------------------------------
+export const EventTimeline: FC<{ events: CalendarEvent[]; className?: string }> = ({
+  events,
+  className,
+}) => {
+  const { timeZone, secondaryTimeZone } = useTimeZones();
+  const [view, setView] = useState<TimelineView>(() => initialView(events, timeZone));
+  const [anchor, setAnchor] = useState<Date>(() => initialAnchor(events, timeZone));
+  const days = useMemo(
+    () => (view === "month" ? [] : visibleDays(view, anchor)),
+    [view, anchor]
+  );
+
+  const step = (direction: 1 | -1) =>
+    setAnchor((a) =>
+      view === "day"
+        ? addDays(a, direction)
+        : view === "week"
+          ? addWeeks(a, direction)
+          : addMonths(a, direction)
+    );
+
+  const openDay = (day: Date) => {
+    setAnchor(startOfDay(day));
+    setView("day");
+  };
+
+  const label =
+    view === "day"
+      ? format(anchor, "EEEE d MMMM yyyy")
+      : view === "week"
+        ? `${format(days[0], "d MMM")} – ${format(days[6], "d MMM yyyy")}`
+        : format(anchor, "MMMM yyyy");
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="icon" className="size-8" onClick={() => step(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="size-8" onClick={() => step(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setAnchor(startOfDay(toZonedDate(new Date(), timeZone)))}
+          >
+            Today
+          </Button>
+          <span className="text-sm font-medium">{label}</span>
+        </div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={view}
+          onValueChange={(v) => v && setView(v as TimelineView)}
+        >
+          <ToggleGroupItem value="day" className="px-3">Day</ToggleGroupItem>
+          <ToggleGroupItem value="week" className="px-3">Week</ToggleGroupItem>
+          <ToggleGroupItem value="month" className="px-3">Month</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {view === "month" ? (
+        <MonthView
+          month={anchor}
+          events={events}
+          timeZone={timeZone}
+          onMonthChange={setAnchor}
+          onOpenDay={openDay}
+        />
+      ) : (
+        <TimeGrid
+          days={days}
+          events={events}
+          timeZone={timeZone}
+          secondaryTimeZone={secondaryTimeZone}
+          onOpenDay={openDay}
+        />
+      )}
+    </div>
+  );
+};
+
+export default EventTimeline;
@@ -0,0 +1,85 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Events answer – cards, calendar or the text summary of the same answer
+// ---------------------------------------------------------------------------
+
+import { useState } from "react";
+import type { FC } from "react";
+
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CalendarDays, Download, FileText, LayoutList } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+
+import { EventList } from "@/components/event-cards";
+import { EventTimeline } from "@/components/event-timeline";
+import { useTimeZones } from "@/hooks/use-time-zone";
+import { cn } from "@/lib/utils";
+import type { CalendarEvent } from "@/lib/events";
+import { ICS_MIME, icsFilename, toIcs } from "@/lib/ics";
+
+type AnswerView = "cards" | "calendar" | "text";
+
+function downloadIcs(events: CalendarEvent[], timeZone: string) {
+  const url = URL.createObjectURL(new Blob([toIcs(events, { timeZone })], { type: ICS_MIME }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = icsFilename(events);
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export const EventsAnswer: FC<{
+  events: CalendarEvent[];
+  /** Markdown summary; the Text tab is hidden without one. */
+  markdown?: string;
+  /** Opens an event in the event form. */
+  onEditEvent?: (event: CalendarEvent) => void;
+  className?: string;
+}> = ({ events, markdown, onEditEvent, className }) => {
+  const [view, setView] = useState<AnswerView>("cards");
+  const { timeZone } = useTimeZones();
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={view}
+          onValueChange={(v) => v && setView(v as AnswerView)}
+          className="bg-background"
+        >
+          <ToggleGroupItem value="cards" className="gap-1 px-3">
+            <LayoutList className="h-3.5 w-3.5" /> Cards
+          </ToggleGroupItem>
+          <ToggleGroupItem value="calendar" className="gap-1 px-3">
+            <CalendarDays className="h-3.5 w-3.5" /> Calendar
+          </ToggleGroupItem>
+          {markdown && (
+            <ToggleGroupItem value="text" className="gap-1 px-3">
+              <FileText className="h-3.5 w-3.5" /> Text
+            </ToggleGroupItem>
+          )}
+        </ToggleGroup>
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-background"
+          onClick={() => downloadIcs(events, timeZone)}
+          title="Download as .ics for Outlook, Apple or Google Calendar"
+        >
+          <Download className="h-3.5 w-3.5" /> Export .ics
+        </Button>
+      </div>
+
+      {view === "cards" && <EventList events={events} onEdit={onEditEvent} />}
+      {view === "calendar" && <EventTimeline events={events} />}
+      {view === "text" && markdown && <ReactMarkdown>{markdown}</ReactMarkdown>}
+    </div>
+  );
+};
+
+export default EventsAnswer;
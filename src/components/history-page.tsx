@@ -0,0 +1,129 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// History page – every saved conversation, searchable and by agent
+// ---------------------------------------------------------------------------
+
+import { useState } from "react";
+import type { FC } from "react";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { History, Pin, PinOff, Search, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+import { Link, PageLayout } from "@/components/app-nav";
+import { AgentIcon } from "@/components/agent-switcher";
+import { useThreads } from "@/hooks/use-threads";
+import { activeAgent, findAgent, useAgents } from "@/lib/agents";
+import { chatPath } from "@/lib/router";
+
+/** Select value standing in for "every agent" (Radix forbids ""). */
+const ALL_AGENTS = "all";
+
+export const HistoryPage: FC = () => {
+  const agents = useAgents((s) => s.agents);
+  const selectedAgent = useAgents(activeAgent);
+  const threads = useThreads(selectedAgent.id);
+  const [query, setQuery] = useState("");
+  const [agentId, setAgentId] = useState(ALL_AGENTS);
+
+  const needle = query.trim().toLowerCase();
+  const shown = threads.threads.filter(
+    (t) =>
+      (agentId === ALL_AGENTS || findAgent(t.agentId).id === agentId) &&
+      t.title.toLowerCase().includes(needle)
+  );
+
+  return (
+    <PageLayout
+      title="History"
+      description="Every conversation saved in this browser."
+      icon={History}
+    >
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by title…"
+            className="pl-8"
+          />
+        </div>
+        <Select value={agentId} onValueChange={setAgentId}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_AGENTS}>All agents</SelectItem>
+            {agents.map((agent) => (
+              <SelectItem key={agent.id} value={agent.id}>
+                <AgentIcon icon={agent.icon} />
+                {agent.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="gap-0 py-0">
+        <CardHeader className="border-b py-4">
+          <CardTitle>
+            {shown.length} of {threads.threads.length} conversations
+          </CardTitle>
+        </CardHeader>
+        {shown.length === 0 ? (
+          <CardContent className="py-6 text-center text-muted-foreground">
+            {threads.threads.length === 0
+              ? "Nothing saved yet – conversations appear here after their first turn."
+              : "No conversation matches."}
+          </CardContent>
+        ) : (
+          <ul className="divide-y">
+            {shown.map((thread) => {
+              const agent = findAgent(thread.agentId);
+              return (
+                <li key={thread.id} className="flex items-center gap-3 px-6 py-3">
+                  <AgentIcon icon={agent.icon} className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <Link to={chatPath(thread.id)} className="min-w-0 flex-1 hover:underline">
+                    <p className="truncate font-medium">{thread.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {agent.name} · {format(thread.updatedAt, "PP p")}
+                    </p>
+                  </Link>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={thread.pinned ? "Unpin" : "Pin"}
+                    onClick={() => threads.togglePin(thread.id)}
+                  >
+                    {thread.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Delete"
+                    onClick={() => threads.remove(thread.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </Card>
+    </PageLayout>
+  );
+};
+
+export default HistoryPage;
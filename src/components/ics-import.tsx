@@ -0,0 +1,180 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// ICS import – drop or pick an .ics file to ask about its events
+// ---------------------------------------------------------------------------
+
+import { useRef, useState } from "react";
+import type { FC } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from "@/components/ui/hover-card";
+import { CalendarArrowDown, Paperclip, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { useTimeZones } from "@/hooks/use-time-zone";
+import { cn } from "@/lib/utils";
+import { formatEventTime } from "@/lib/events";
+import { ICS_MIME, IcsError, readIcsFile } from "@/lib/ics";
+import type { Attachment } from "@/lib/conversation";
+
+const isIcsFile = (file: File) =>
+  file.type === ICS_MIME || /\.(ics|ical|ifb|icalendar)$/i.test(file.name);
+
+/** Parses `file`; reports problems as toasts and returns null. */
+async function importFile(file: File): Promise<Attachment | null> {
+  if (!isIcsFile(file)) {
+    toast.error("Only iCalendar (.ics) files can be attached.");
+    return null;
+  }
+  try {
+    const events = await readIcsFile(file);
+    if (!events.length) {
+      toast.warning(`${file.name} contains no events.`);
+      return null;
+    }
+    return { filename: file.name, events };
+  } catch (err) {
+    toast.error(`Could not read ${file.name}.`, {
+      description: err instanceof IcsError ? err.message : undefined,
+    });
+    return null;
+  }
+}
+
+const hasFiles = (e: React.DragEvent) => e.dataTransfer.types.includes("Files");
+
+/** Accepts .ics files dropped anywhere on `children`. */
+export const IcsDropZone: FC<{
+  onImport: (attachment: Attachment) => void;
+  disabled?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}> = ({ onImport, disabled = false, className, children }) => {
+  // enter/leave fire for every child, so count them
+  const depth = useRef(0);
+  const [over, setOver] = useState(false);
+
+  const reset = () => {
+    depth.current = 0;
+    setOver(false);
+  };
+
+  return (
+    <div
+      className={cn("relative", className)}
+      onDragEnter={(e) => {
+        if (disabled || !hasFiles(e)) return;
+        depth.current++;
+        setOver(true);
+      }}
+      onDragLeave={() => {
+        if (--depth.current <= 0) reset();
+      }}
+      onDragOver={(e) => {
+        if (disabled || !hasFiles(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "copy";
+      }}
+      onDrop={async (e) => {
+        if (disabled || !hasFiles(e)) return;
+        e.preventDefault();
+        reset();
+        const file = e.dataTransfer.files[0];
+        const attachment = file && (await importFile(file));
+        if (attachment) onImport(attachment);
+      }}
+    >
+      {children}
+      {over && (
+        <div className="pointer-events-none absolute inset-0 z-40 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-background/80">
+          <p className="flex items-center gap-2 text-lg font-medium">
+            <CalendarArrowDown className="h-6 w-6" /> Drop an .ics file to ask about its events
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Paperclip button opening a file picker for .ics files. */
+export const IcsAttachButton: FC<{
+  onImport: (attachment: Attachment) => void;
+  disabled?: boolean;
+}> = ({ onImport, disabled = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".ics,text/calendar"
+        className="hidden"
+        onChange={async (e) => {
+          const file = e.target.files?.[0];
+          // let the same file be picked again
+          e.target.value = "";
+          const attachment = file && (await importFile(file));
+          if (attachment) onImport(attachment);
+        }}
+      />
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        title="Attach an .ics file"
+      >
+        <Paperclip className="h-4 w-4" />
+      </Button>
+    </>
+  );
+};
+
+/** File name and event count; hover lists the events. */
+export const AttachmentBadge: FC<{
+  attachment: Attachment;
+  onRemove?: () => void;
+  className?: string;
+}> = ({ attachment, onRemove, className }) => {
+  const { timeZone } = useTimeZones();
+  const count = attachment.events.length;
+  return (
+    <HoverCard openDelay={200}>
+      <HoverCardTrigger asChild>
+        <Badge variant="secondary" className={cn("max-w-full gap-1 pr-1", className)}>
+          <Paperclip className="h-3 w-3" />
+          <span className="truncate">{attachment.filename}</span>
+          <span className="text-muted-foreground">
+            · {count} {count === 1 ? "event" : "events"}
+          </span>
+          {onRemove && (
+            <button
+              type="button"
+              aria-label="Remove attachment"
+              className="rounded-sm hover:bg-muted-foreground/20"
+              onClick={onRemove}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </Badge>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80">
+        <ul className="max-h-64 space-y-1.5 overflow-y-auto text-sm">
+          {attachment.events.map((e, i) => (
+            <li key={e.id ?? i}>
+              <p className="truncate font-medium">{e.title}</p>
+              <p className="text-xs text-muted-foreground">{formatEventTime(e, timeZone)}</p>
+            </li>
+          ))}
+        </ul>
+      </HoverCardContent>
+    </HoverCard>
+  );
+};
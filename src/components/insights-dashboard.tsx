@@ -0,0 +1,459 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Insights dashboard – meeting load, who you meet and focus time for a range
+// ---------------------------------------------------------------------------
+// Asks the backend for the events of the chosen range (a text request with
+// `range`) and charts what comes back in `events` (lib/insights).
+// ---------------------------------------------------------------------------
+
+import { useEffect, useMemo, useState } from "react";
+import type { FC } from "react";
+import type { DateRange as DayPickerRange } from "react-day-picker";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import type { ChartConfig } from "@/components/ui/chart";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Calendar } from "@/components/ui/calendar";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { AlertCircle, CalendarRange, RefreshCw, TrendingDown, TrendingUp } from "lucide-react";
+import { format } from "date-fns";
+
+import { useTimeZones } from "@/hooks/use-time-zone";
+import { cn } from "@/lib/utils";
+import { describeApiError, sendTextRequest } from "@/lib/api";
+import type { CalendarEvent } from "@/lib/events";
+import type { AgentDefinition } from "@/lib/agents";
+import { getAgentUrl, getRequestPolicy } from "@/lib/config";
+import { getRequestContext } from "@/lib/settings";
+import { toZonedDate } from "@/lib/timezone";
+import {
+  DEFAULT_WORKING_HOURS,
+  FOCUS_MIN_MINUTES,
+  MAX_RANGE_DAYS,
+  RANGE_PRESETS,
+  computeInsights,
+  presetRange,
+  rangeQuery,
+  toWireRange,
+  weekOverWeek,
+} from "@/lib/insights";
+import type { DateRange, FocusBlock, RangePreset, Tally } from "@/lib/insights";
+
+/** Select value for a range picked in the calendar. */
+const CUSTOM = "custom";
+/** Focus blocks listed, longest first. */
+const MAX_FOCUS_BLOCKS = 6;
+
+const LOAD_CONFIG = {
+  meetingHours: { label: "Meetings", color: "var(--chart-1)" },
+  focusHours: { label: "Focus time", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const TALLY_CONFIG = {
+  meetings: { label: "Meetings", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+type Load =
+  | { status: "loading" }
+  | { status: "error"; title: string; description?: string }
+  | { status: "done"; events: CalendarEvent[] };
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+const hourLabel = (h: number) => `${String(h).padStart(2, "0")}:00`;
+const hoursLabel = (h: number) => `${h.toLocaleString(undefined, { maximumFractionDigits: 1 })} h`;
+
+const Stat: FC<{ label: string; value: string; hint?: React.ReactNode }> = ({
+  label,
+  value,
+  hint,
+}) => (
+  <Card className="gap-1 py-3">
+    <CardHeader className="px-4">
+      <CardDescription>{label}</CardDescription>
+      <CardTitle className="text-2xl tabular-nums">{value}</CardTitle>
+    </CardHeader>
+    {hint && <CardContent className="px-4 text-xs text-muted-foreground">{hint}</CardContent>}
+  </Card>
+);
+
+/** "+2 h" in red for more meetings, green for more focus. */
+const Delta: FC<{ value: number; unit: string; goodWhenUp?: boolean }> = ({
+  value,
+  unit,
+  goodWhenUp = false,
+}) => {
+  if (value === 0) return <span>no change</span>;
+  const Icon = value > 0 ? TrendingUp : TrendingDown;
+  const good = value > 0 === goodWhenUp;
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-0.5",
+        good ? "text-green-600 dark:text-green-500" : "text-destructive"
+      )}
+    >
+      <Icon className="h-3 w-3" />
+      {value > 0 ? "+" : "−"}
+      {Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 1 })} {unit}
+    </span>
+  );
+};
+
+const TallyChart: FC<{ tallies: Tally[]; empty: string }> = ({ tallies, empty }) =>
+  tallies.length ? (
+    <ChartContainer config={TALLY_CONFIG} className="aspect-auto h-64 w-full">
+      <BarChart data={tallies} layout="vertical" margin={{ left: 8, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" dataKey="meetings" allowDecimals={false} />
+        <YAxis
+          type="category"
+          dataKey="label"
+          width={120}
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={(v: string) => (v.length > 18 ? `${v.slice(0, 17)}…` : v)}
+        />
+        <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+        <Bar dataKey="meetings" fill="var(--color-meetings)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  ) : (
+    <p className="py-10 text-center text-sm text-muted-foreground">{empty}</p>
+  );
+
+const FocusList: FC<{ blocks: FocusBlock[] }> = ({ blocks }) => {
+  const longest = [...blocks].sort((a, b) => b.minutes - a.minutes).slice(0, MAX_FOCUS_BLOCKS);
+  if (!longest.length) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No free stretch of {FOCUS_MIN_MINUTES} minutes or more in working hours.
+      </p>
+    );
+  }
+  return (
+    <ul className="space-y-1.5 text-sm">
+      {longest.map((b) => (
+        <li key={b.start.getTime()} className="flex justify-between gap-2">
+          <span>
+            {format(b.start, "EEE d MMM · HH:mm")} – {format(b.end, "HH:mm")}
+          </span>
+          <span className="tabular-nums text-muted-foreground">
+            {hoursLabel(b.minutes / 60)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+// ‑‑‑ Component -------------------------------------------------------------
+export const InsightsDialog: FC<{
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Agent asked for the range's events. */
+  agent: AgentDefinition;
+}> = ({ open, onOpenChange, agent }) => {
+  const { timeZone } = useTimeZones();
+  const [preset, setPreset] = useState<RangePreset | typeof CUSTOM>("this_week");
+  const [range, setRange] = useState<DateRange>(() =>
+    presetRange("this_week", toZonedDate(new Date(), timeZone))
+  );
+  const [picked, setPicked] = useState<DayPickerRange | undefined>();
+  const [load, setLoad] = useState<Load>({ status: "loading" });
+  // bumped by the reload button to ask again for the same range
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!open) return;
+    const controller = new AbortController();
+    setLoad({ status: "loading" });
+    (async () => {
+      try {
+        const reply = await sendTextRequest(
+          getAgentUrl(agent),
+          { query: rangeQuery(range), range: toWireRange(range), ...getRequestContext() },
+          { ...getRequestPolicy(), signal: controller.signal }
+        );
+        setLoad({ status: "done", events: reply.events ?? [] });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setLoad({ status: "error", ...describeApiError(err) });
+      }
+    })();
+    return () => controller.abort();
+  }, [open, range, attempt, agent]);
+
+  const insights = useMemo(
+    () => (load.status === "done" ? computeInsights(load.events, range, { timeZone }) : null),
+    [load, range, timeZone]
+  );
+  const trend = insights && weekOverWeek(insights.weeks);
+
+  const choosePreset = (value: string) => {
+    if (value === CUSTOM) return;
+    setPreset(value as RangePreset);
+    setRange(presetRange(value as RangePreset, toZonedDate(new Date(), timeZone)));
+  };
+
+  const chooseDays = (days: DayPickerRange | undefined) => {
+    setPicked(days);
+    if (!days?.from || !days.to) return;
+    setPreset(CUSTOM);
+    setRange({ from: days.from, to: days.to });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Meeting insights</DialogTitle>
+          <DialogDescription>
+            Time in meetings, who you meet and the focus time left, from the events the
+            assistant returns for the range.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={preset} onValueChange={choosePreset}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RANGE_PRESETS) as RangePreset[]).map((p) => (
+                <SelectItem key={p} value={p}>
+                  {RANGE_PRESETS[p]}
+                </SelectItem>
+              ))}
+              <SelectItem value={CUSTOM} disabled={preset !== CUSTOM}>
+                Custom
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="font-normal">
+                <CalendarRange className="h-4 w-4" />
+                {format(range.from, "d MMM")} – {format(range.to, "d MMM yyyy")}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={picked ?? { from: range.from, to: range.to }}
+                onSelect={chooseDays}
+                defaultMonth={range.from}
+                numberOfMonths={2}
+                weekStartsOn={1}
+                max={MAX_RANGE_DAYS}
+              />
+            </PopoverContent>
+          </Popover>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setAttempt((n) => n + 1)}
+            disabled={load.status === "loading"}
+            title="Ask again"
+          >
+            <RefreshCw className={cn("h-4 w-4", load.status === "loading" && "animate-spin")} />
+          </Button>
+        </div>
+
+        {load.status === "loading" && (
+          <div className="grid gap-3 sm:grid-cols-4">
+            {Array.from({ length: 4 }, (_, i) => (
+              <Skeleton key={i} className="h-20" />
+            ))}
+            <Skeleton className="h-64 sm:col-span-4" />
+          </div>
+        )}
+
+        {load.status === "error" && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{load.title}</AlertTitle>
+            {load.description && <AlertDescription>{load.description}</AlertDescription>}
+          </Alert>
+        )}
+
+        {insights && insights.totals.meetings === 0 && (
+          <p className="py-10 text-center text-sm text-muted-foreground">
+            No meetings between {format(range.from, "d MMM")} and{" "}
+            {format(range.to, "d MMM")}. If your calendar is not empty, the backend
+            may not send structured `events` yet.
+          </p>
+        )}
+
+        {insights && insights.totals.meetings > 0 && (
+          <div className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-4">
+              <Stat label="Meetings" value={String(insights.totals.meetings)} />
+              <Stat
+                label="In meetings"
+                value={hoursLabel(insights.totals.meetingHours)}
+                hint={`${hoursLabel(insights.totals.hoursPerWorkday)} per workday`}
+              />
+              <Stat
+                label="Focus time"
+                value={hoursLabel(insights.totals.focusHours)}
+                hint={`Blocks of ${FOCUS_MIN_MINUTES} min or more`}
+              />
+              <Stat
+                label="Busiest day"
+                value={
+                  insights.totals.busiestDay
+                    ? format(insights.totals.busiestDay.day, "EEE d")
+                    : "—"
+                }
+                hint={
+                  insights.totals.busiestDay &&
+                  `${hoursLabel(insights.totals.busiestDay.meetingHours)} in meetings`
+                }
+              />
+            </div>
+
+            <Card className="gap-3 py-4">
+              <CardHeader className="px-4">
+                <CardTitle className="text-base">Hours per day</CardTitle>
+                <CardDescription>Overlapping meetings count once.</CardDescription>
+              </CardHeader>
+              <CardContent className="px-4">
+                <ChartContainer config={LOAD_CONFIG} className="aspect-auto h-64 w-full">
+                  <BarChart data={insights.days}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={8} />
+                    <YAxis width={28} tickLine={false} axisLine={false} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend
+                      content={({ payload }) => <ChartLegendContent payload={payload} />}
+                    />
+                    <Bar
+                      dataKey="meetingHours"
+                      stackId="day"
+                      fill="var(--color-meetingHours)"
+                    />
+                    <Bar
+                      dataKey="focusHours"
+                      stackId="day"
+                      fill="var(--color-focusHours)"
+                      radius={[4, 4, 0, 0]}
+                    />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <Card className="gap-3 py-4">
+                <CardHeader className="px-4">
+                  <CardTitle className="text-base">Who you meet</CardTitle>
+                </CardHeader>
+                <CardContent className="px-4">
+                  <Tabs defaultValue="attendees">
+                    <TabsList>
+                      <TabsTrigger value="attendees">People</TabsTrigger>
+                      <TabsTrigger value="calendars">Calendars</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="attendees">
+                      <TallyChart
+                        tallies={insights.attendees}
+                        empty="The events list no other attendees."
+                      />
+                    </TabsContent>
+                    <TabsContent value="calendars">
+                      <TallyChart tallies={insights.calendars} empty="No calendars." />
+                    </TabsContent>
+                  </Tabs>
+                </CardContent>
+              </Card>
+
+              <Card className="gap-3 py-4">
+                <CardHeader className="px-4">
+                  <CardTitle className="text-base">Week over week</CardTitle>
+                  {trend && (
+                    <CardDescription className="flex flex-wrap gap-x-3">
+                      <span>
+                        Meetings <Delta value={trend.meetingHours} unit="h" />
+                      </span>
+                      <span>
+                        Focus <Delta value={trend.focusHours} unit="h" goodWhenUp />
+                      </span>
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="px-4">
+                  {insights.weeks.length > 1 ? (
+                    <ChartContainer config={LOAD_CONFIG} className="aspect-auto h-64 w-full">
+                      <BarChart data={insights.weeks}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                        <YAxis width={28} tickLine={false} axisLine={false} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend
+                          content={({ payload }) => <ChartLegendContent payload={payload} />}
+                        />
+                        <Bar dataKey="meetingHours" fill="var(--color-meetingHours)" radius={4} />
+                        <Bar dataKey="focusHours" fill="var(--color-focusHours)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  ) : (
+                    <p className="py-10 text-center text-sm text-muted-foreground">
+                      Pick a range of two weeks or more to compare weeks.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="gap-3 py-4">
+              <CardHeader className="px-4">
+                <CardTitle className="text-base">Longest focus blocks</CardTitle>
+                <CardDescription>
+                  Free time between {hourLabel(DEFAULT_WORKING_HOURS.start)} and{" "}
+                  {hourLabel(DEFAULT_WORKING_HOURS.end)} on weekdays.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="px-4">
+                <FocusList blocks={insights.focusBlocks} />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InsightsDialog;
@@ -0,0 +1,196 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Voice kiosk – talk to the selected agent with one big button, nothing else
+// ---------------------------------------------------------------------------
+//   • Always hands‑free: a recording is sent as soon as the speaker pauses
+//   • Shows the latest question and answer only; answers are spoken
+//   • The conversation is saved like any other (history) until Start over
+//   • Requests go through the same core as the chat (use-assistant)
+// ---------------------------------------------------------------------------
+
+import { useEffect, useMemo } from "react";
+import type { FC } from "react";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Mic, RotateCcw, RotateCw, Square, VolumeX, X } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+
+import { AppNav, Link } from "@/components/app-nav";
+import { AgentIcon } from "@/components/agent-switcher";
+import { EventsAnswer } from "@/components/events-answer";
+import { PendingActionDialog } from "@/components/pending-action-dialog";
+import { RecordingMeter } from "@/components/recording-meter";
+import { useAssistant } from "@/hooks/use-assistant";
+import { useHotkeys, usePushToTalk } from "@/hooks/use-hotkeys";
+import { useRecorder } from "@/hooks/use-recorder";
+import { useThreads } from "@/hooks/use-threads";
+import { activeAgent, useAgents } from "@/lib/agents";
+import { awaitingDecision, createMessage } from "@/lib/conversation";
+import { useSettings } from "@/lib/settings";
+import { SHORTCUTS } from "@/lib/shortcuts";
+
+// ‑‑‑ Component -------------------------------------------------------------
+export const Kiosk: FC = () => {
+  const agent = useAgents(activeAgent);
+  const threads = useThreads(agent.id);
+  const { messages, startNew } = threads;
+  const assistant = useAssistant(threads);
+  const { isLoading, draft, retryNote, playback, isSpeaking } = assistant;
+  const hasEvents = agent.renderers.includes("events");
+  const hasActions = agent.renderers.includes("actions");
+  const canTalk = agent.modes.includes("voice");
+  const voice = useSettings((st) => st.voice);
+  const mic = useSettings((st) => st.mic);
+  const pushToTalk = useSettings((st) => st.shortcuts.pushToTalk);
+  // nobody reaches for a stop button at a kiosk: pausing sends
+  const handsFree = useMemo(() => ({ ...voice, handsFree: true }), [voice]);
+
+  // another agent picked in the settings starts another conversation
+  useEffect(() => {
+    startNew();
+  }, [agent.id, startNew]);
+
+  const recorder = useRecorder({
+    onRecorded: (blob) => assistant.submit(createMessage("user", { audio: blob })),
+    // barge‑in: the assistant never talks over the user
+    onStart: () => (voice.bargeIn === "stop" ? playback.stop() : playback.duck()),
+    onSpeechStart: () => playback.stop(),
+    onStop: () => playback.restore(),
+    voice: handsFree,
+    mic,
+  });
+  const { isRecording } = recorder;
+
+  const startOver = () => {
+    playback.stop();
+    startNew();
+  };
+
+  usePushToTalk(pushToTalk, {
+    enabled: canTalk && !isLoading,
+    onPress: recorder.start,
+    onRelease: recorder.stop,
+  });
+
+  useHotkeys([
+    { ...SHORTCUTS.replayAudio, handler: assistant.replayLastAnswer },
+    {
+      ...SHORTCUTS.cancelRequest,
+      enabled: isLoading || isSpeaking,
+      handler: () => (isLoading ? assistant.cancel() : playback.stop()),
+    },
+  ]);
+
+  /* ----- JSX ----- */
+  const question = [...messages].reverse().find((m) => m.role === "user");
+  const lastMessage = messages[messages.length - 1];
+  const answer = lastMessage?.role === "assistant" ? lastMessage : undefined;
+  const pending = hasActions && !isLoading ? awaitingDecision(messages) : undefined;
+
+  const status = isRecording
+    ? "Listening… it sends when you pause."
+    : isLoading
+      ? retryNote || "Thinking…"
+      : isSpeaking
+        ? "Speaking…"
+        : "Tap the mic and ask.";
+
+  return (
+    <div className="relative flex min-h-screen flex-col items-center bg-background p-4 text-foreground md:p-6 lg:p-8">
+      <AppNav className="absolute right-2 top-2" />
+      <PendingActionDialog
+        action={pending?.pendingAction}
+        onDecide={(approved) => pending && assistant.decide(pending, approved)}
+      />
+
+      <header className="mt-8 flex items-center gap-2">
+        <AgentIcon icon={agent.icon} className="h-8 w-8 text-primary" />
+        <h1 className="text-3xl font-bold">{agent.name}</h1>
+      </header>
+
+      {!canTalk ? (
+        <p className="mt-16 max-w-md text-center text-lg text-muted-foreground">
+          {agent.name} answers text only. Pick another agent in the{" "}
+          <Link to="/settings" className="underline">
+            settings
+          </Link>{" "}
+          or use the{" "}
+          <Link to="/" className="underline">
+            chat
+          </Link>
+          .
+        </p>
+      ) : (
+        <div className="flex w-full max-w-2xl flex-1 flex-col items-center gap-6 py-12">
+          <Button
+            size="lg"
+            onClick={isRecording ? recorder.stop : recorder.start}
+            disabled={isLoading}
+            className="h-32 w-32 rounded-full p-0"
+            variant={isRecording ? "destructive" : "default"}
+            title={isRecording ? "Stop and send" : "Talk"}
+          >
+            {isRecording ? <Square className="size-14" /> : <Mic className="size-14" />}
+          </Button>
+          {isRecording && recorder.analyser && recorder.startedAt ? (
+            <RecordingMeter analyser={recorder.analyser} startedAt={recorder.startedAt} />
+          ) : (
+            <p className="text-lg text-muted-foreground">{status}</p>
+          )}
+
+          <div className="flex flex-wrap justify-center gap-2">
+            {isLoading && (
+              <Button variant="outline" onClick={assistant.cancel}>
+                <X className="h-4 w-4" /> Cancel
+              </Button>
+            )}
+            {isSpeaking && (
+              <Button variant="outline" onClick={() => playback.stop()}>
+                <VolumeX className="h-4 w-4" /> Stop speaking
+              </Button>
+            )}
+            {question?.failed && !isLoading && (
+              <Button variant="outline" onClick={() => assistant.resend(question)}>
+                <RotateCw className="h-4 w-4" /> Try again
+              </Button>
+            )}
+            {messages.length > 0 && (
+              <Button variant="ghost" onClick={startOver} disabled={isLoading || isRecording}>
+                <RotateCcw className="h-4 w-4" /> Start over
+              </Button>
+            )}
+          </div>
+
+          {question && (
+            <p className="text-center text-xl">
+              {question.transcript ? `“${question.transcript}”` : "…"}
+            </p>
+          )}
+
+          {(draft || answer) && (
+            <Card className="w-full">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AgentIcon icon={agent.icon} className="h-5 w-5 text-green-500" /> Answer
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-lg">
+                {isLoading ? (
+                  <ReactMarkdown>{draft}</ReactMarkdown>
+                ) : hasEvents && answer?.events?.length ? (
+                  <EventsAnswer events={answer.events} markdown={answer.text} />
+                ) : (
+                  <ReactMarkdown>{answer?.text ?? ""}</ReactMarkdown>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Kiosk;
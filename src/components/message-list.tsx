@@ -0,0 +1,303 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Conversation thread – scrolling list of user and assistant turns
+// ---------------------------------------------------------------------------
+
+import { useEffect, useRef, useState } from "react";
+import type { FC } from "react";
+
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertCircle,
+  Bot,
+  Mic,
+  Pencil,
+  RotateCw,
+  Send,
+  ShieldQuestion,
+  User,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+
+import { EventsAnswer } from "@/components/events-answer";
+import { AttachmentBadge } from "@/components/ics-import";
+import { useAttachedPlayer } from "@/hooks/use-playback";
+import { cn } from "@/lib/utils";
+import type { AgentRenderer } from "@/lib/agents";
+import type { ChatMessage } from "@/lib/conversation";
+import type { CalendarEvent } from "@/lib/events";
+import { describePendingAction } from "@/lib/pending-action";
+import type { Decision } from "@/lib/pending-action";
+import type { PlaybackController } from "@/lib/playback";
+
+const DECISION_LABEL: Record<Decision | "pending", string> = {
+  pending: "awaiting confirmation",
+  confirmed: "confirmed",
+  cancelled: "cancelled",
+};
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+const BlobAudio: FC<{ blob: Blob; playback?: PlaybackController }> = ({
+  blob,
+  playback,
+}) => {
+  const [url, setUrl] = useState<string>("");
+  const audioRef = useAttachedPlayer(playback);
+
+  useEffect(() => {
+    const next = URL.createObjectURL(blob);
+    setUrl(next);
+    return () => URL.revokeObjectURL(next);
+  }, [blob]);
+
+  // always rendered, so the element is there when the controller attaches
+  return (
+    <audio
+      ref={audioRef}
+      controls
+      src={url || undefined}
+      className={cn("w-full max-w-sm", !url && "hidden")}
+    />
+  );
+};
+
+/** Inline correction of a transcript; Enter sends, Escape cancels. */
+const TranscriptEditor: FC<{
+  transcript: string;
+  disabled?: boolean;
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+}> = ({ transcript, disabled, onSubmit, onCancel }) => {
+  const [value, setValue] = useState(transcript);
+  const submit = () => value.trim() && onSubmit(value.trim());
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            submit();
+          } else if (e.key === "Escape") {
+            e.stopPropagation();
+            onCancel();
+          }
+        }}
+        className="min-h-0 bg-background text-foreground"
+      />
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={submit}
+          disabled={disabled || !value.trim()}
+        >
+          <Send className="h-3 w-3" /> Send as text
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const MessageBubble: FC<{
+  message: ChatMessage;
+  renderers: AgentRenderer[];
+  agentIcon: LucideIcon;
+  playback?: PlaybackController;
+  onResend?: (message: ChatMessage) => void;
+  onResubmit?: (text: string) => void;
+  onEditEvent?: (event: CalendarEvent) => void;
+  busy?: boolean;
+}> = ({ message, renderers, agentIcon, playback, onResend, onResubmit, onEditEvent, busy }) => {
+  const isUser = message.role === "user";
+  const Icon = isUser ? User : agentIcon;
+  const [editing, setEditing] = useState(false);
+  const events = renderers.includes("events") ? message.events : undefined;
+
+  return (
+    <div className={cn("flex gap-3", isUser && "flex-row-reverse")}>
+      <div className="mt-1 flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-muted">
+        <Icon className="h-4 w-4" />
+      </div>
+      <div
+        className={cn(
+          "max-w-[85%] space-y-2 rounded-lg px-4 py-3",
+          isUser ? "bg-primary text-primary-foreground" : "bg-muted",
+          // the calendar needs room to lay out a week
+          !isUser && !!events?.length && "w-full"
+        )}
+      >
+        {isUser && message.audio && !message.text && (
+          <p className="flex items-center gap-1 text-sm opacity-80">
+            <Mic className="h-3 w-3" /> {message.transcript ? "You said" : "Voice request"}
+          </p>
+        )}
+        {isUser &&
+          message.transcript &&
+          (editing && onResubmit ? (
+            <TranscriptEditor
+              transcript={message.transcript}
+              disabled={busy}
+              onCancel={() => setEditing(false)}
+              onSubmit={(text) => {
+                setEditing(false);
+                onResubmit(text);
+              }}
+            />
+          ) : (
+            <div className="flex items-start gap-2">
+              <p className="whitespace-pre-wrap">{message.transcript}</p>
+              {onResubmit && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6 shrink-0 hover:bg-primary-foreground/20 hover:text-primary-foreground"
+                  title="Correct and send as text"
+                  onClick={() => setEditing(true)}
+                  disabled={busy}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        {!isUser && events?.length ? (
+          // cards or calendar replace the Markdown listing; it stays one click away
+          <EventsAnswer
+            events={events}
+            markdown={message.text}
+            onEditEvent={busy ? undefined : onEditEvent}
+          />
+        ) : (
+          message.text &&
+          (isUser || !renderers.includes("markdown") ? (
+            <p className="whitespace-pre-wrap">{message.text}</p>
+          ) : (
+            <ReactMarkdown>{message.text}</ReactMarkdown>
+          ))
+        )}
+        {message.attachment && (
+          <AttachmentBadge attachment={message.attachment} className="bg-primary-foreground/90" />
+        )}
+        {message.pendingAction && renderers.includes("actions") && (
+          <p className="flex items-center gap-1 text-sm text-muted-foreground">
+            <ShieldQuestion className="h-4 w-4 shrink-0" />
+            {describePendingAction(message.pendingAction)} ·{" "}
+            {DECISION_LABEL[message.decision ?? "pending"]}
+          </p>
+        )}
+        {message.audio && <BlobAudio blob={message.audio} playback={playback} />}
+        {message.failed && (
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <span className="flex items-center gap-1">
+              <AlertCircle className="h-4 w-4" /> Not sent
+            </span>
+            {onResend && (
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => onResend(message)}
+                disabled={busy}
+              >
+                <RotateCw className="h-3 w-3" /> Resend
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ‑‑‑ Component -------------------------------------------------------------
+export const MessageList: FC<{
+  messages: ChatMessage[];
+  isLoading?: boolean;
+  /** Streamed Markdown of the answer still in progress. */
+  draft?: string;
+  /** Barge‑in also pauses answers replayed from the list. */
+  playback?: PlaybackController;
+  /** Resends a failed user turn without re‑recording or re‑typing it. */
+  onResend?: (message: ChatMessage) => void;
+  /** Sends a corrected transcript as a new text query. */
+  onResubmit?: (text: string) => void;
+  /** Opens an answered event in the event form. */
+  onEditEvent?: (event: CalendarEvent) => void;
+  /** What the conversation's agent renders beyond plain text (lib/agents). */
+  renderers?: AgentRenderer[];
+  agentIcon?: LucideIcon;
+  className?: string;
+}> = ({
+  messages,
+  isLoading = false,
+  draft = "",
+  playback,
+  onResend,
+  onResubmit,
+  onEditEvent,
+  renderers = ["markdown", "events", "actions"],
+  agentIcon = Bot,
+  className,
+}) => {
+  const AgentIcon = agentIcon;
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // keep the newest turn in view
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth", block: "end" });
+  }, [messages.length, isLoading, draft]);
+
+  return (
+    <ScrollArea className={cn("h-[60vh]", className)}>
+      <div className="space-y-4 p-4">
+        {messages.map((m) => (
+          <MessageBubble
+            key={m.id}
+            message={m}
+            renderers={renderers}
+            agentIcon={agentIcon}
+            playback={playback}
+            onResend={onResend}
+            onResubmit={onResubmit}
+            onEditEvent={onEditEvent}
+            busy={isLoading}
+          />
+        ))}
+
+        {isLoading && (
+          <div className="flex gap-3">
+            <div className="mt-1 flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-muted">
+              <AgentIcon className="h-4 w-4 animate-pulse" />
+            </div>
+            {draft ? (
+              <div className="max-w-[85%] rounded-lg bg-muted px-4 py-3">
+                <ReactMarkdown>{draft}</ReactMarkdown>
+                <span className="inline-block h-4 w-2 animate-pulse bg-foreground/60 align-middle" />
+              </div>
+            ) : (
+              <div className="w-2/3 space-y-2 rounded-lg bg-muted px-4 py-3">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <Skeleton key={i} className="h-4 w-full bg-background/60" />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+    </ScrollArea>
+  );
+};
+
+export default MessageList;
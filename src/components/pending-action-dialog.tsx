@@ -0,0 +1,116 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Pending action dialog – approve or reject a change before it is applied
+// ---------------------------------------------------------------------------
+
+import type { FC } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { EventCard } from "@/components/event-cards";
+import { useTimeZones } from "@/hooks/use-time-zone";
+import { describePendingAction, diffEvents } from "@/lib/pending-action";
+import type { FieldChange, PendingAction, PendingActionType } from "@/lib/pending-action";
+
+const TITLE: Record<PendingActionType, string> = {
+  create_event: "Create this event?",
+  update_event: "Apply these changes?",
+  delete_event: "Delete this event?",
+};
+
+const CONFIRM: Record<PendingActionType, string> = {
+  create_event: "Create",
+  update_event: "Apply",
+  delete_event: "Delete",
+};
+
+const ChangesTable: FC<{ changes: FieldChange[] }> = ({ changes }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead />
+        <TableHead>Before</TableHead>
+        <TableHead>After</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {changes.map((c) => (
+        <TableRow key={c.label} className="align-top">
+          <TableCell className="font-medium">{c.label}</TableCell>
+          <TableCell className="whitespace-normal text-muted-foreground line-through">
+            {c.before ?? "—"}
+          </TableCell>
+          <TableCell className="whitespace-normal">{c.after ?? "—"}</TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+/**
+ * Open while `action` is set. Cancel and Escape reject, only the confirm
+ * button approves – either way `onDecide` is called exactly once.
+ */
+export const PendingActionDialog: FC<{
+  action?: PendingAction;
+  onDecide: (approved: boolean) => void;
+}> = ({ action, onDecide }) => {
+  const { timeZone } = useTimeZones();
+  const changes =
+    action?.type === "update_event" && action.before && action.after
+      ? diffEvents(action.before, action.after, timeZone)
+      : [];
+  const shown = action?.type === "delete_event" ? action.before : action?.after;
+
+  return (
+    <AlertDialog open={!!action} onOpenChange={(open) => !open && onDecide(false)}>
+      {action && (
+        <AlertDialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{TITLE[action.type]}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {describePendingAction(action)}. Nothing changes in your calendar until you
+              confirm.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {changes.length > 0 ? (
+            <ChangesTable changes={changes} />
+          ) : (
+            shown && <EventCard event={shown} />
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button
+              variant={action.type === "delete_event" ? "destructive" : "default"}
+              onClick={() => onDecide(true)}
+            >
+              {CONFIRM[action.type]}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      )}
+    </AlertDialog>
+  );
+};
+
+export default PendingActionDialog;
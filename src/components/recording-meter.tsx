@@ -0,0 +1,131 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Recording meter – live waveform, level bar, elapsed time, silence warning
+// ---------------------------------------------------------------------------
+
+import { useEffect, useRef, useState } from "react";
+import type { FC } from "react";
+
+import { MicOff } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { SILENCE_RMS, frameRms } from "@/lib/vad";
+
+/** Continuous silence before the "no input" warning appears. */
+const SILENCE_WARNING_MS = 2000;
+/** RMS that fills the level bar completely. */
+const FULL_SCALE_RMS = 0.25;
+
+function formatElapsed(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+export const RecordingMeter: FC<{
+  analyser: AnalyserNode;
+  startedAt: number;
+  className?: string;
+}> = ({ analyser, startedAt, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const levelRef = useRef<HTMLDivElement>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [silent, setSilent] = useState(false);
+
+  // elapsed time
+  useEffect(() => {
+    const tick = () => setElapsed(Date.now() - startedAt);
+    tick();
+    const id = setInterval(tick, 250);
+    return () => clearInterval(id);
+  }, [startedAt]);
+
+  // waveform + level, drawn straight to the DOM to avoid 60 fps re‑renders
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const buffer = new Float32Array(analyser.fftSize);
+    const color = getComputedStyle(canvas).color;
+    let quietSince = performance.now();
+    let warned = false;
+    let raf = 0;
+
+    const draw = () => {
+      const rms = frameRms(analyser, buffer);
+
+      // match the backing store to the CSS size for crisp lines
+      const { clientWidth: w, clientHeight: h } = canvas;
+      const dpr = window.devicePixelRatio || 1;
+      if (canvas.width !== w * dpr || canvas.height !== h * dpr) {
+        canvas.width = w * dpr;
+        canvas.height = h * dpr;
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, w, h);
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      const step = buffer.length / w;
+      for (let x = 0; x < w; x++) {
+        const y = h / 2 + buffer[Math.floor(x * step)] * (h / 2);
+        if (x === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+
+      if (levelRef.current) {
+        const pct = Math.min(1, rms / FULL_SCALE_RMS) * 100;
+        levelRef.current.style.width = `${pct}%`;
+      }
+
+      const now = performance.now();
+      if (rms > SILENCE_RMS) quietSince = now;
+      const isQuiet = now - quietSince > SILENCE_WARNING_MS;
+      if (isQuiet !== warned) {
+        warned = isQuiet;
+        setSilent(isQuiet);
+      }
+
+      raf = requestAnimationFrame(draw);
+    };
+    raf = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(raf);
+  }, [analyser]);
+
+  return (
+    <div className={cn("w-full space-y-2", className)}>
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-2 font-medium text-destructive">
+          <span className="h-2 w-2 animate-pulse rounded-full bg-destructive" />
+          Recording
+        </span>
+        <span className="font-mono tabular-nums text-muted-foreground">
+          {formatElapsed(elapsed)}
+        </span>
+      </div>
+      <canvas ref={canvasRef} className="h-16 w-full text-primary" />
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          ref={levelRef}
+          className={cn(
+            "h-full rounded-full transition-[width] duration-75",
+            silent ? "bg-destructive" : "bg-green-500"
+          )}
+          style={{ width: 0 }}
+        />
+      </div>
+      {silent && (
+        <p className="flex items-center gap-2 text-sm text-destructive">
+          <MicOff className="h-4 w-4" /> No input detected – is your microphone
+          muted or the wrong one?
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RecordingMeter;
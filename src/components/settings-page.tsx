@@ -0,0 +1,115 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Settings page – agent, backend, voice, time zones and shortcuts in one place
+// ---------------------------------------------------------------------------
+// The same settings the chat offers in its toolbar popovers; all of them are
+// stored in localStorage (lib/agents, lib/config, lib/settings).
+// ---------------------------------------------------------------------------
+
+import { useState } from "react";
+import type { FC } from "react";
+
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Command, Globe, Mic, Server, Settings } from "lucide-react";
+
+import { PageLayout } from "@/components/app-nav";
+import { AgentIcon, AgentSwitcher } from "@/components/agent-switcher";
+import { EnvironmentSwitcher } from "@/components/environment-switcher";
+import { VoiceSettingsPanel } from "@/components/voice-settings";
+import { TimeZoneSettingsPanel } from "@/components/time-zone-settings";
+import { ShortcutsDialog } from "@/components/shortcuts-dialog";
+import { activeAgent, useAgents } from "@/lib/agents";
+import { activeEnvironment, useConfig } from "@/lib/config";
+
+export const SettingsPage: FC = () => {
+  const agent = useAgents(activeAgent);
+  const setAgent = useAgents((s) => s.setAgent);
+  const environment = useConfig((s) => s.environments[activeEnvironment(s)]);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+
+  return (
+    <PageLayout
+      title="Settings"
+      description="Saved in this browser and used by the chat and the kiosk."
+      icon={Settings}
+    >
+      <ShortcutsDialog open={shortcutsOpen} onOpenChange={setShortcutsOpen} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AgentIcon icon={agent.icon} className="h-5 w-5" /> Agent
+          </CardTitle>
+          <CardDescription>
+            New conversations go to this agent. {agent.description}
+          </CardDescription>
+          <CardAction>
+            <AgentSwitcher value={agent} onChange={(next) => setAgent(next.id)} />
+          </CardAction>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Server className="h-5 w-5" /> Backend
+          </CardTitle>
+          <CardDescription className="break-all">
+            Agents without their own endpoint answer from {environment.apiUrl}.
+          </CardDescription>
+          <CardAction>
+            <EnvironmentSwitcher />
+          </CardAction>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mic className="h-5 w-5" /> Voice
+          </CardTitle>
+          <CardDescription>Microphone, spoken answers and hands‑free sending.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <VoiceSettingsPanel />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5" /> Time zones
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <TimeZoneSettingsPanel />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Command className="h-5 w-5" /> Keyboard shortcuts
+          </CardTitle>
+          <CardDescription>Push‑to‑talk key and the other shortcuts of the chat.</CardDescription>
+          <CardAction>
+            <Button variant="outline" size="sm" onClick={() => setShortcutsOpen(true)}>
+              Show
+            </Button>
+          </CardAction>
+        </CardHeader>
+      </Card>
+    </PageLayout>
+  );
+};
+
+export default SettingsPage;
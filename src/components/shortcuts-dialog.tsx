@@ -0,0 +1,139 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Keyboard cheat sheet – lists every shortcut and rebinds push‑to‑talk
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from "react";
+import type { FC } from "react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+
+import {
+  EXTERNAL_SHORTCUTS,
+  SHORTCUTS,
+  formatCombo,
+} from "@/lib/shortcuts";
+import type { KeyCombo } from "@/lib/shortcuts";
+import { DEFAULT_SHORTCUT_SETTINGS, useSettings } from "@/lib/settings";
+
+const Keys: FC<{ keys: string[] }> = ({ keys }) => (
+  <span className="flex gap-1">
+    {keys.map((k) => (
+      <kbd
+        key={k}
+        className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs text-muted-foreground"
+      >
+        {k}
+      </kbd>
+    ))}
+  </span>
+);
+
+const Row: FC<{ keys: string[]; description: string; action?: React.ReactNode }> = ({
+  keys,
+  description,
+  action,
+}) => (
+  <li className="flex items-center justify-between gap-4 py-1.5">
+    <span className="text-sm">{description}</span>
+    <span className="flex items-center gap-2">
+      {action}
+      <Keys keys={keys} />
+    </span>
+  </li>
+);
+
+export const ShortcutsDialog: FC<{
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}> = ({ open, onOpenChange }) => {
+  const pushToTalk = useSettings((s) => s.shortcuts.pushToTalk);
+  const setShortcuts = useSettings((s) => s.setShortcuts);
+  const [capturing, setCapturing] = useState(false);
+
+  // the next non‑modifier key press becomes the push‑to‑talk key
+  useEffect(() => {
+    if (!capturing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === "Escape") {
+        setCapturing(false);
+        return;
+      }
+      if (["Alt", "Control", "Shift", "Meta"].includes(e.key)) return;
+      const combo: KeyCombo = {
+        code: e.code,
+        alt: e.altKey,
+        ctrl: e.ctrlKey,
+        shift: e.shiftKey,
+        meta: e.metaKey,
+      };
+      setShortcuts({ pushToTalk: combo });
+      setCapturing(false);
+    };
+    window.addEventListener("keydown", onKeyDown, { capture: true });
+    return () => window.removeEventListener("keydown", onKeyDown, { capture: true });
+  }, [capturing, setShortcuts]);
+
+  useEffect(() => {
+    if (!open) setCapturing(false);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts without Alt are ignored while typing in a text field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="divide-y">
+          <Row
+            keys={capturing ? ["Press a key…"] : formatCombo(pushToTalk)}
+            description="Hold to talk (Voice mode)"
+            action={
+              <>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setCapturing((c) => !c)}
+                >
+                  {capturing ? "Cancel" : "Change"}
+                </Button>
+                {formatCombo(pushToTalk).join() !==
+                  formatCombo(DEFAULT_SHORTCUT_SETTINGS.pushToTalk).join() && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setShortcuts(DEFAULT_SHORTCUT_SETTINGS)}
+                  >
+                    Reset
+                  </Button>
+                )}
+              </>
+            }
+          />
+          {Object.entries(SHORTCUTS).map(([id, s]) => (
+            <Row key={id} keys={formatCombo(s.combo)} description={s.description} />
+          ))}
+          {EXTERNAL_SHORTCUTS.map((s) => (
+            <Row key={s.label} keys={s.label.split(" ")} description={s.description} />
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShortcutsDialog;
@@ -0,0 +1,204 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Thread sidebar – reopen, rename, pin and delete saved conversations
+// ---------------------------------------------------------------------------
+
+import { useState } from "react";
+import type { FC } from "react";
+
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  MessageSquarePlus,
+  MoreHorizontal,
+  Pencil,
+  Pin,
+  PinOff,
+  Trash2,
+} from "lucide-react";
+
+import { AgentIcon } from "@/components/agent-switcher";
+import { findAgent } from "@/lib/agents";
+import type { Thread } from "@/lib/history-db";
+
+interface ThreadSidebarProps {
+  threads: Thread[];
+  activeId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// ‑‑‑ Component -------------------------------------------------------------
+export const ThreadSidebar: FC<ThreadSidebarProps> = ({
+  threads,
+  activeId,
+  disabled = false,
+  onSelect,
+  onNew,
+  onRename,
+  onTogglePin,
+  onDelete,
+}) => {
+  const [renaming, setRenaming] = useState<Thread | null>(null);
+  const [title, setTitle] = useState("");
+
+  const pinned = threads.filter((t) => t.pinned);
+  const recent = threads.filter((t) => !t.pinned);
+
+  const openRename = (thread: Thread) => {
+    setTitle(thread.title);
+    setRenaming(thread);
+  };
+
+  const submitRename = () => {
+    if (renaming) onRename(renaming.id, title);
+    setRenaming(null);
+  };
+
+  const renderItem = (thread: Thread) => {
+    const agent = findAgent(thread.agentId);
+    return (
+      <SidebarMenuItem key={thread.id}>
+        <SidebarMenuButton
+          isActive={thread.id === activeId}
+          onClick={() => onSelect(thread.id)}
+          disabled={disabled}
+          tooltip={`${thread.title} · ${agent.name}`}
+        >
+          <AgentIcon icon={agent.icon} />
+          <span>{thread.title}</span>
+        </SidebarMenuButton>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuAction showOnHover>
+              <MoreHorizontal />
+              <span className="sr-only">Thread actions</span>
+            </SidebarMenuAction>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right" align="start">
+            <DropdownMenuItem onClick={() => openRename(thread)}>
+              <Pencil /> Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onTogglePin(thread.id)}>
+              {thread.pinned ? <PinOff /> : <Pin />}
+              {thread.pinned ? "Unpin" : "Pin"}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              variant="destructive"
+              disabled={disabled && thread.id === activeId}
+              onClick={() => onDelete(thread.id)}
+            >
+              <Trash2 /> Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </SidebarMenuItem>
+    );
+  };
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader>
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={onNew} disabled={disabled}>
+                <MessageSquarePlus />
+                <span>New conversation</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </SidebarMenu>
+        </SidebarHeader>
+
+        <SidebarContent>
+          {pinned.length > 0 && (
+            <SidebarGroup>
+              <SidebarGroupLabel>Pinned</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>{pinned.map(renderItem)}</SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          )}
+
+          <SidebarGroup>
+            <SidebarGroupLabel>History</SidebarGroupLabel>
+            <SidebarGroupAction
+              title="New conversation"
+              onClick={onNew}
+              disabled={disabled}
+            >
+              <MessageSquarePlus />
+              <span className="sr-only">New conversation</span>
+            </SidebarGroupAction>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {recent.map(renderItem)}
+                {threads.length === 0 && (
+                  <p className="px-2 py-1 text-sm text-muted-foreground">
+                    No saved conversations yet.
+                  </p>
+                )}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      {/* Rename dialog */}
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename conversation</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submitRename()}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitRename}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ThreadSidebar;
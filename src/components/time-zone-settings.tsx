@@ -0,0 +1,153 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Time zone settings – display zone of event times and an optional second one
+// ---------------------------------------------------------------------------
+
+import { useMemo, useState } from "react";
+import type { FC } from "react";
+
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Check, ChevronsUpDown, Globe } from "lucide-react";
+
+import { useTimeZones } from "@/hooks/use-time-zone";
+import { cn } from "@/lib/utils";
+import { useSettings } from "@/lib/settings";
+import {
+  formatOffset,
+  listTimeZones,
+  localTimeZone,
+  zoneCity,
+  zoneOffset,
+} from "@/lib/timezone";
+
+/** "Europe/Berlin (UTC+01:00)". */
+function zoneLabel(zone: string): string {
+  const offset = zoneOffset(zone, Date.now());
+  return offset === null ? zone : `${zone.replace(/_/g, " ")} (UTC${formatOffset(offset)})`;
+}
+
+/** Searchable zone list; `emptyLabel` is the entry standing for null. */
+const ZonePicker: FC<{
+  id: string;
+  value: string | null;
+  onChange: (zone: string | null) => void;
+  emptyLabel: string;
+}> = ({ id, value, onChange, emptyLabel }) => {
+  const [open, setOpen] = useState(false);
+  // offsets change with DST, so build the labels when the list opens
+  const zones = useMemo(
+    () => (open ? listTimeZones().map((zone) => ({ zone, label: zoneLabel(zone) })) : []),
+    [open]
+  );
+
+  const pick = (zone: string | null) => {
+    onChange(zone);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className="truncate">{value ? zoneLabel(value) : emptyLabel}</span>
+          <ChevronsUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 p-0">
+        <Command>
+          <CommandInput placeholder="Search city or zone…" />
+          <CommandList>
+            <CommandEmpty>No zone found.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem value={emptyLabel} onSelect={() => pick(null)}>
+                <Check className={cn("h-4 w-4", value !== null && "invisible")} />
+                {emptyLabel}
+              </CommandItem>
+              {zones.map(({ zone, label }) => (
+                <CommandItem key={zone} value={label} onSelect={() => pick(zone)}>
+                  <Check className={cn("h-4 w-4", value !== zone && "invisible")} />
+                  <span className="truncate">{label}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+/** The time zone settings; in the popover and on the settings page. */
+export const TimeZoneSettingsPanel: FC<{ className?: string }> = ({ className }) => {
+  const time = useSettings((s) => s.time);
+  const setTime = useSettings((s) => s.setTime);
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="space-y-2">
+        <Label htmlFor="time-zone">Time zone</Label>
+        <ZonePicker
+          id="time-zone"
+          value={time.timeZone}
+          onChange={(zone) => setTime({ timeZone: zone })}
+          emptyLabel={`This device (${zoneCity(localTimeZone())})`}
+        />
+        <p className="text-xs text-muted-foreground">
+          Event times are shown in this zone, and it is sent with every request.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="secondary-time-zone">Secondary time zone</Label>
+        <ZonePicker
+          id="secondary-time-zone"
+          value={time.secondaryTimeZone}
+          onChange={(zone) => setTime({ secondaryTimeZone: zone })}
+          emptyLabel="None"
+        />
+        <p className="text-xs text-muted-foreground">
+          Shown under event times and as a second hour column in the calendar.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export const TimeZoneSettings: FC = () => {
+  const { timeZone } = useTimeZones();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" title={`Time zone: ${zoneCity(timeZone)}`}>
+          <Globe className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <TimeZoneSettingsPanel />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TimeZoneSettings;
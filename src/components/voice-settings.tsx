@@ -0,0 +1,210 @@
+"use client";
+
+// ---------------------------------------------------------------------------
+// Voice settings – microphone, hands‑free end‑of‑speech detection, limits
+// ---------------------------------------------------------------------------
+
+import type { FC } from "react";
+
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Settings2 } from "lucide-react";
+
+import { useAudioInputs } from "@/hooks/use-audio-devices";
+import { useSettings } from "@/lib/settings";
+import type { MicSettings } from "@/lib/settings";
+import type { BargeInMode } from "@/lib/playback";
+import { cn } from "@/lib/utils";
+
+/** Select value standing in for `deviceId: null` (Radix forbids ""). */
+const SYSTEM_DEFAULT = "system-default";
+
+const PROCESSING: { key: keyof Omit<MicSettings, "deviceId">; label: string }[] = [
+  { key: "echoCancellation", label: "Echo cancellation" },
+  { key: "noiseSuppression", label: "Noise suppression" },
+  { key: "autoGainControl", label: "Automatic gain" },
+];
+
+/** The voice and microphone settings; in the popover and on the settings page. */
+export const VoiceSettingsPanel: FC<{ className?: string }> = ({ className }) => {
+  const voice = useSettings((s) => s.voice);
+  const setVoice = useSettings((s) => s.setVoice);
+  const mic = useSettings((s) => s.mic);
+  const setMic = useSettings((s) => s.setMic);
+  // labels only appear once mic permission is granted; the list is re‑read
+  // whenever the panel mounts, i.e. each time the popover opens
+  const { inputs } = useAudioInputs();
+
+  // a remembered device that is unplugged shows (and records) as the default
+  const deviceValue =
+    mic.deviceId && inputs.some((d) => d.deviceId === mic.deviceId)
+      ? mic.deviceId
+      : SYSTEM_DEFAULT;
+
+  return (
+    <div className={cn("space-y-5", className)}>
+      <div className="space-y-2">
+        <Label htmlFor="mic-device">Microphone</Label>
+        <Select
+          value={deviceValue}
+          onValueChange={(v) => setMic({ deviceId: v === SYSTEM_DEFAULT ? null : v })}
+        >
+          <SelectTrigger id="mic-device" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SYSTEM_DEFAULT}>System default</SelectItem>
+            {inputs.map((d) => (
+              <SelectItem key={d.deviceId} value={d.deviceId}>
+                {d.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-3">
+        {PROCESSING.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <Label htmlFor={key} className="font-normal">
+              {label}
+            </Label>
+            <Switch
+              id={key}
+              checked={mic[key]}
+              onCheckedChange={(checked) => setMic({ [key]: checked })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <Separator />
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="auto-play">Speak answers</Label>
+          <p className="text-xs text-muted-foreground">
+            Play spoken answers as soon as they arrive.
+          </p>
+        </div>
+        <Switch
+          id="auto-play"
+          checked={voice.autoPlay}
+          onCheckedChange={(autoPlay) => setVoice({ autoPlay })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="barge-in">When you start recording</Label>
+        <Select
+          value={voice.bargeIn}
+          onValueChange={(v) => setVoice({ bargeIn: v as BargeInMode })}
+        >
+          <SelectTrigger id="barge-in" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="duck">Lower the answer, stop it once you talk</SelectItem>
+            <SelectItem value="stop">Stop the answer</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Separator />
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="hands-free">Hands‑free</Label>
+          <p className="text-xs text-muted-foreground">
+            Send automatically when you stop talking.
+          </p>
+        </div>
+        <Switch
+          id="hands-free"
+          checked={voice.handsFree}
+          onCheckedChange={(handsFree) => setVoice({ handsFree })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <Label>Sensitivity</Label>
+          <span className="text-muted-foreground">
+            {Math.round(voice.sensitivity * 100)}%
+          </span>
+        </div>
+        <Slider
+          min={0}
+          max={1}
+          step={0.05}
+          value={[voice.sensitivity]}
+          onValueChange={([sensitivity]) => setVoice({ sensitivity })}
+          disabled={!voice.handsFree}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <Label>Silence before sending</Label>
+          <span className="text-muted-foreground">
+            {(voice.silenceMs / 1000).toFixed(1)} s
+          </span>
+        </div>
+        <Slider
+          min={500}
+          max={5000}
+          step={250}
+          value={[voice.silenceMs]}
+          onValueChange={([silenceMs]) => setVoice({ silenceMs })}
+          disabled={!voice.handsFree}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <Label>Maximum length</Label>
+          <span className="text-muted-foreground">
+            {Math.round(voice.maxUtteranceMs / 1000)} s
+          </span>
+        </div>
+        <Slider
+          min={5000}
+          max={180_000}
+          step={5000}
+          value={[voice.maxUtteranceMs]}
+          onValueChange={([maxUtteranceMs]) => setVoice({ maxUtteranceMs })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export const VoiceSettings: FC<{ disabled?: boolean }> = ({ disabled = false }) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button variant="ghost" size="icon" disabled={disabled} title="Voice settings">
+        <Settings2 className="h-4 w-4" />
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent align="end" className="max-h-[80vh] w-80 overflow-y-auto">
+      <VoiceSettingsPanel />
+    </PopoverContent>
+  </Popover>
+);
+
+export default VoiceSettings;
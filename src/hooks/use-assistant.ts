@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { useIsSpeaking } from "@/hooks/use-playback";
+import type { Threads } from "@/hooks/use-threads";
+import {
+  AssistantApiError,
+  describeApiError,
+  sendActionRequest,
+  sendConfirmation,
+  sendTextRequest,
+  sendVoiceRequest,
+} from "@/lib/api";
+import type { AssistantReply, StreamHandlers } from "@/lib/api";
+import { activeAgent, findAgent } from "@/lib/agents";
+import type { AgentDefinition } from "@/lib/agents";
+import { encodeForUpload } from "@/lib/audio-encode";
+import { getAgentUrl, getAudioFormat, getRequestPolicy } from "@/lib/config";
+import { backendThreadId, createMessage, toHistory } from "@/lib/conversation";
+import type { ChatMessage, HistoryTurn } from "@/lib/conversation";
+import { toWireEvent } from "@/lib/events";
+import { describePendingAction } from "@/lib/pending-action";
+import { PlaybackController } from "@/lib/playback";
+import { getRequestContext, useSettings } from "@/lib/settings";
+
+function reportError(err: unknown) {
+  const { title, description } = describeApiError(err);
+  toast.error(title, { description });
+}
+
+/**
+ * The request/response core every page talks to the assistant through: sends
+ * a user turn of `threads` to its agent (voice, text, event action or
+ * confirmation), streams the answer into `draft` and the player, and stores
+ * it in the thread that asked – even if the user switched away meanwhile.
+ */
+export function useAssistant(threads: Threads) {
+  const { messagesRef } = threads;
+  const autoPlay = useSettings((st) => st.voice.autoPlay);
+
+  const [isLoading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<string>("");
+  const [retryNote, setRetryNote] = useState<string>("");
+
+  const [playback] = useState(() => new PlaybackController());
+  const isSpeaking = useIsSpeaking(playback);
+  // whether this request's audio already played while streaming
+  const streamedAudioRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(
+    () => () => {
+      playback.stop();
+      abortRef.current?.abort();
+    },
+    [playback]
+  );
+
+  const handleResponse = (reply: AssistantReply, threadId: string) => {
+    if (reply.audio && !streamedAudioRef.current && autoPlay) {
+      playback.play(reply.audio);
+    }
+    threads.append(
+      createMessage("assistant", {
+        text: reply.text,
+        audio: reply.audio,
+        events: reply.events,
+        pendingAction: reply.pendingAction,
+        backendThreadId: reply.threadId,
+      }),
+      threadId
+    );
+  };
+
+  /** The agent a thread belongs to; a thread created a moment ago is not listed yet. */
+  const agentOf = (threadId: string): AgentDefinition => {
+    const thread = threads.threads.find((t) => t.id === threadId);
+    return thread ? findAgent(thread.agentId) : activeAgent();
+  };
+
+  /** Resets streaming state and returns handlers for the next request. */
+  const beginStream = (): StreamHandlers => {
+    playback.stop();
+    streamedAudioRef.current = false;
+    setDraft("");
+    return {
+      onText: setDraft,
+      onAudioChunk: (chunk) => {
+        streamedAudioRef.current = true;
+        if (autoPlay) playback.enqueue(chunk);
+      },
+    };
+  };
+
+  /**
+   * Sends one user turn. On failure the turn is marked `failed` but kept –
+   * including a recorded blob – so it can be resent without re‑recording.
+   */
+  const request = async (
+    message: ChatMessage,
+    threadId: string,
+    history: HistoryTurn[]
+  ) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const policy = getRequestPolicy();
+    const { timeoutMs } = policy;
+    // a change the backend applied but answered late must not be sent twice
+    const retries = message.confirmation || message.action ? 0 : policy.retries;
+    // the answer a confirmation decides; it is only marked once the backend has it
+    const asked = message.confirmation
+      ? messagesRef.current.find((m) => m.pendingAction?.id === message.confirmation!.action_id)
+      : undefined;
+    setLoading(true);
+    setRetryNote("");
+
+    try {
+      const url = getAgentUrl(agentOf(threadId));
+      const events = message.attachment?.events.map(toWireEvent);
+      const context = {
+        ...getRequestContext(),
+        thread_id: backendThreadId(messagesRef.current),
+      };
+      // show what the backend heard as soon as it says so
+      const showTranscript = (transcript: string) => {
+        if (message.audio) threads.update(message.id, { transcript });
+      };
+      const options = {
+        ...beginStream(),
+        onTranscript: showTranscript,
+        signal: controller.signal,
+        timeoutMs,
+        retries,
+        onRetry: (attempt: number, delayMs: number) =>
+          setRetryNote(
+            `Retrying in ${(delayMs / 1000).toFixed(1)} s (attempt ${attempt} of ${retries + 1})…`
+          ),
+      };
+      let reply: AssistantReply;
+      if (message.confirmation) {
+        reply = await sendConfirmation(
+          url,
+          { confirmation: message.confirmation, history, ...context },
+          options
+        );
+      } else if (message.action) {
+        reply = await sendActionRequest(url, { action: message.action, history, ...context }, options);
+      } else if (message.audio) {
+        reply = await sendVoiceRequest(
+          url,
+          {
+            ...(await encodeForUpload(message.audio, getAudioFormat())),
+            history,
+            events,
+            ...context,
+          },
+          options
+        );
+      } else {
+        reply = await sendTextRequest(
+          url,
+          { query: message.text ?? "", history, events, ...context },
+          options
+        );
+      }
+      if (reply.transcript) showTranscript(reply.transcript);
+      if (asked) {
+        threads.update(asked.id, {
+          decision: message.confirmation!.approved ? "confirmed" : "cancelled",
+        });
+      }
+      handleResponse(reply, threadId);
+    } catch (err) {
+      playback.stop();
+      threads.update(message.id, { failed: true });
+      if (err instanceof AssistantApiError && err.kind === "aborted") {
+        toast("Request cancelled.", { duration: 1500 });
+      } else {
+        reportError(err);
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setLoading(false);
+      setDraft("");
+      setRetryNote("");
+    }
+  };
+
+  /** Appends a new user turn to the active thread and sends it. */
+  const submit = async (message: ChatMessage) => {
+    const history = toHistory(messagesRef.current);
+    const threadId = await threads.append(message);
+    await request(message, threadId, history);
+  };
+
+  /** Posts the user's answer to the pending action of `message`. */
+  const decide = async (message: ChatMessage, approved: boolean) => {
+    const action = message.pendingAction;
+    if (!action || message.decision) return;
+    await submit(
+      createMessage("user", {
+        text: `${approved ? "Confirmed" : "Cancelled"}: ${describePendingAction(action)}`,
+        confirmation: { action_id: action.id, approved },
+      })
+    );
+  };
+
+  /** Sends a failed turn again, with the turns before it as history. */
+  const resend = async (message: ChatMessage) => {
+    const threadId = threads.activeIdRef.current;
+    if (!threadId) return;
+    // the user may have answered the action again since this one failed
+    const { confirmation } = message;
+    if (
+      confirmation &&
+      messagesRef.current.some((m) => m.pendingAction?.id === confirmation.action_id && m.decision)
+    ) {
+      toast("This action was already answered.", { duration: 1500 });
+      return;
+    }
+    const index = messagesRef.current.findIndex((m) => m.id === message.id);
+    const history = toHistory(messagesRef.current.slice(0, index));
+    await threads.update(message.id, { failed: false });
+    await request(message, threadId, history);
+  };
+
+  const cancel = () => abortRef.current?.abort();
+
+  /** Plays the latest spoken answer of the active thread again. */
+  const replayLastAnswer = () => {
+    const last = [...messagesRef.current]
+      .reverse()
+      .find((m) => m.role === "assistant" && m.audio);
+    if (!last?.audio) {
+      toast("No spoken answer to replay yet.", { duration: 1500 });
+      return;
+    }
+    playback.play(last.audio);
+  };
+
+  return {
+    isLoading,
+    draft,
+    retryNote,
+    playback,
+    isSpeaking,
+    submit,
+    decide,
+    resend,
+    cancel,
+    replayLastAnswer,
+  };
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+
+export interface AudioInput {
+  deviceId: string;
+  label: string;
+}
+
+/**
+ * Microphones reported by `enumerateDevices()`, refreshed on `devicechange`.
+ * Browsers hide labels until mic permission is granted, so unnamed devices
+ * get a numbered placeholder and `refresh()` can be called after recording.
+ */
+export function useAudioInputs() {
+  const [inputs, setInputs] = useState<AudioInput[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      setInputs(
+        devices
+          .filter((d) => d.kind === "audioinput" && d.deviceId)
+          // "default"/"communications" are aliases of a real device (Chrome)
+          .filter((d) => d.deviceId !== "default" && d.deviceId !== "communications")
+          .map((d, i) => ({
+            deviceId: d.deviceId,
+            label: d.label || `Microphone ${i + 1}`,
+          }))
+      );
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    const media = navigator.mediaDevices;
+    if (!media) return;
+    refresh();
+    media.addEventListener("devicechange", refresh);
+    return () => media.removeEventListener("devicechange", refresh);
+  }, [refresh]);
+
+  return { inputs, refresh };
+}
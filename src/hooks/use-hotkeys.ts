@@ -0,0 +1,81 @@
+import { useEffect, useRef } from "react";
+
+import { isEditableTarget, matchesCombo } from "@/lib/shortcuts";
+import type { KeyCombo, ShortcutDefinition } from "@/lib/shortcuts";
+
+export interface HotkeyBinding extends ShortcutDefinition {
+  handler: (e: KeyboardEvent) => void;
+  enabled?: boolean;
+}
+
+/** Global keydown shortcuts; the latest bindings are always used. */
+export function useHotkeys(bindings: HotkeyBinding[]) {
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.repeat) return;
+      const editing = isEditableTarget(e.target);
+      for (const b of bindingsRef.current) {
+        if (b.enabled === false || (editing && !b.allowInInputs)) continue;
+        if (!matchesCombo(e, b.combo)) continue;
+        e.preventDefault();
+        b.handler(e);
+        return;
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+}
+
+/**
+ * Hold‑to‑talk: `onPress` on the first keydown of `combo`, `onRelease` on
+ * keyup (or when the window loses focus mid‑press). Ignored while typing.
+ */
+export function usePushToTalk(
+  combo: KeyCombo,
+  {
+    enabled,
+    onPress,
+    onRelease,
+  }: { enabled: boolean; onPress: () => void; onRelease: () => void }
+) {
+  const handlersRef = useRef({ onPress, onRelease });
+  handlersRef.current = { onPress, onRelease };
+
+  useEffect(() => {
+    if (!enabled) return;
+    let held = false;
+
+    const release = () => {
+      if (!held) return;
+      held = false;
+      handlersRef.current.onRelease();
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target) || !matchesCombo(e, combo)) return;
+      // stop Space from scrolling or clicking the focused button
+      e.preventDefault();
+      if (held || e.repeat) return;
+      held = true;
+      handlersRef.current.onPress();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== combo.code) return;
+      e.preventDefault();
+      release();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", release);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", release);
+      release();
+    };
+  }, [enabled, combo.code, combo.alt, combo.ctrl, combo.shift, combo.meta]);
+}
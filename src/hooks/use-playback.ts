@@ -0,0 +1,19 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+
+import type { PlaybackController } from "@/lib/playback";
+
+/** Re‑renders when the controller starts or stops speaking. */
+export function useIsSpeaking(playback: PlaybackController): boolean {
+  return useSyncExternalStore(playback.subscribe, () => playback.isPlaying);
+}
+
+/** Attaches an `<audio>` element to the controller while it is mounted. */
+export function useAttachedPlayer(playback: PlaybackController | undefined) {
+  const ref = useRef<HTMLAudioElement>(null);
+  useEffect(() => {
+    const el = ref.current;
+    if (!playback || !el) return;
+    return playback.attach(el);
+  }, [playback]);
+  return ref;
+}
@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { SILENCE_RMS, VoiceActivityDetector, frameRms } from "@/lib/vad";
+import type { MicSettings, VoiceSettings } from "@/lib/settings";
+
+async function queryMicPermission(): Promise<PermissionState | "unsupported"> {
+  if (!("permissions" in navigator)) return "unsupported";
+  try {
+    const status = await navigator.permissions.query({ name: "microphone" });
+    return status.state;
+  } catch {
+    return "unsupported";
+  }
+}
+
+const isSecureContextOrLocal = () =>
+  window.isSecureContext || ["localhost", "127.0.0.1"].includes(location.hostname);
+
+/** `ideal` rather than `exact`, so an unplugged device falls back to the default. */
+function audioConstraints(mic: MicSettings): MediaTrackConstraints {
+  return {
+    ...(mic.deviceId && { deviceId: { ideal: mic.deviceId } }),
+    echoCancellation: mic.echoCancellation,
+    noiseSuppression: mic.noiseSuppression,
+    autoGainControl: mic.autoGainControl,
+  };
+}
+
+export interface RecorderOptions {
+  /** Receives the finished, non‑empty recording. */
+  onRecorded: (blob: Blob) => void;
+  onStart?: () => void;
+  /** The detector heard the user start talking (hands‑free or not). */
+  onSpeechStart?: () => void;
+  onStop?: () => void;
+  voice: VoiceSettings;
+  mic: MicSettings;
+}
+
+const LEVEL_POLL_MS = 100;
+
+/** First supported wins; Safari only records MP4/AAC. */
+const RECORDING_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4"];
+
+/**
+ * MediaRecorder plus a Web Audio analyser on the same microphone stream.
+ * Recording stops on `stop()`, after `maxUtteranceMs`, or – in hands‑free
+ * mode – when the detector hears the end of speech. The detector also runs
+ * without hands‑free, to report speech for barge‑in. A recording in which the
+ * mic never rose above silence is held back and offered with "Send anyway".
+ */
+export function useRecorder({ voice, mic, ...handlers }: RecorderOptions) {
+  const [isRecording, setRecording] = useState(false);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<BlobPart[]>([]);
+  const contextRef = useRef<AudioContext | null>(null);
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const maxTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const levelTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const peakRef = useRef(0);
+  // a start still waiting for permission or the device; stop() cancels it
+  const startingRef = useRef(false);
+
+  // callbacks run long after the render that started the recording
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const teardown = useCallback(() => {
+    vadRef.current?.stop();
+    vadRef.current = null;
+    if (maxTimerRef.current) clearTimeout(maxTimerRef.current);
+    maxTimerRef.current = null;
+    if (levelTimerRef.current) clearInterval(levelTimerRef.current);
+    levelTimerRef.current = null;
+    contextRef.current?.close().catch(() => {});
+    contextRef.current = null;
+    setAnalyser(null);
+    setStartedAt(null);
+  }, []);
+
+  const stop = useCallback(() => {
+    startingRef.current = false;
+    const recorder = recorderRef.current;
+    const active = recorder && recorder.state !== "inactive";
+    if (active) recorder.stop();
+    teardown();
+    setRecording(false);
+    if (active) handlersRef.current.onStop?.();
+  }, [teardown]);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current?.state === "recording" || startingRef.current) return;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      toast.error("getUserMedia not supported in this browser.");
+      return;
+    }
+    startingRef.current = true;
+    const micState = await queryMicPermission();
+    // released (or blurred) while asking: never record after the key is up
+    if (!startingRef.current) return;
+    if (micState === "denied") {
+      startingRef.current = false;
+      toast.error("Microphone permission denied.");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: audioConstraints(mic),
+      });
+      if (!startingRef.current) {
+        stream.getTracks().forEach((t) => t.stop());
+        return;
+      }
+      startingRef.current = false;
+      const tracks = stream.getTracks();
+      const mimeType = RECORDING_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      recorderRef.current = recorder;
+      chunksRef.current = [];
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size) chunksRef.current.push(e.data);
+      };
+      recorder.onstop = () => {
+        tracks.forEach((t) => t.stop());
+        const blob = new Blob(chunksRef.current, { type: recorder.mimeType });
+        if (!blob.size) return toast.error("Empty recording, try again.");
+        if (peakRef.current < SILENCE_RMS) {
+          toast.warning("No input detected – recording not sent.", {
+            description: "Check that your microphone is not muted.",
+            action: {
+              label: "Send anyway",
+              onClick: () => handlersRef.current.onRecorded(blob),
+            },
+          });
+          return;
+        }
+        handlersRef.current.onRecorded(blob);
+      };
+
+      // analysis graph: mic → analyser (never connected to the speakers)
+      const context = new AudioContext();
+      const node = context.createAnalyser();
+      node.fftSize = 2048;
+      context.createMediaStreamSource(stream).connect(node);
+      contextRef.current = context;
+      setAnalyser(node);
+
+      peakRef.current = 0;
+      const frame = new Float32Array(node.fftSize);
+      levelTimerRef.current = setInterval(() => {
+        peakRef.current = Math.max(peakRef.current, frameRms(node, frame));
+      }, LEVEL_POLL_MS);
+
+      vadRef.current = new VoiceActivityDetector(node, {
+        sensitivity: voice.sensitivity,
+        silenceMs: voice.silenceMs,
+        onSpeechStart: () => handlersRef.current.onSpeechStart?.(),
+        onSpeechEnd: () => {
+          if (voice.handsFree) stop();
+        },
+      });
+      vadRef.current.start();
+      maxTimerRef.current = setTimeout(() => {
+        toast("Maximum recording length reached.", { duration: 2000 });
+        stop();
+      }, voice.maxUtteranceMs);
+
+      recorder.start();
+      setRecording(true);
+      setStartedAt(Date.now());
+      handlersRef.current.onStart?.();
+      toast("Recording…", { duration: 1000 });
+    } catch (err) {
+      startingRef.current = false;
+      stream?.getTracks().forEach((t) => t.stop());
+      teardown();
+      toast.error(err instanceof Error && err.message ? err.message : "Cannot start recording.");
+    }
+  }, [voice, mic, stop, teardown]);
+
+  // browsers only hand the microphone to secure pages
+  useEffect(() => {
+    if (!isSecureContextOrLocal()) {
+      toast.warning("Microphone requires HTTPS or localhost.");
+    }
+  }, []);
+
+  // leaving the page drops the recording instead of sending it
+  useEffect(
+    () => () => {
+      startingRef.current = false;
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== "inactive") {
+        recorder.onstop = null;
+        recorder.stop();
+        recorder.stream.getTracks().forEach((t) => t.stop());
+      }
+      teardown();
+    },
+    [teardown]
+  );
+
+  return { isRecording, analyser, startedAt, start, stop };
+}
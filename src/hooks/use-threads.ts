@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import type { ChatMessage } from "@/lib/conversation";
+import {
+  addMessage,
+  deleteThread,
+  getThread,
+  listMessages,
+  listThreads,
+  putThread,
+  updateMessage,
+  updateThread,
+} from "@/lib/history-db";
+import type { Thread } from "@/lib/history-db";
+
+const TITLE_LENGTH = 48;
+
+function titleFor(message: ChatMessage): string {
+  const text = message.text?.trim();
+  if (!text) return `Voice conversation · ${new Date().toLocaleString()}`;
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH)}…` : text;
+}
+
+function reportError(err: unknown) {
+  console.error(err);
+  toast.error((err as Error)?.message || "Conversation history unavailable.");
+}
+
+/**
+ * Conversation threads persisted in IndexedDB. The active thread's turns are
+ * mirrored in memory (`messagesRef` is always current, so async callbacks can
+ * read it); threads are created lazily on their first turn and belong to the
+ * agent that is `agentId` at that moment.
+ */
+export function useThreads(agentId: string) {
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+
+  const activeIdRef = useRef<string | null>(null);
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const agentIdRef = useRef(agentId);
+
+  useEffect(() => {
+    agentIdRef.current = agentId;
+  }, [agentId]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setThreads(await listThreads());
+    } catch (err) {
+      reportError(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const show = (id: string | null, next: ChatMessage[]) => {
+    activeIdRef.current = id;
+    messagesRef.current = next;
+    setActiveId(id);
+    setMessages(next);
+  };
+
+  /** Opens thread `id`; resolves to it, or to undefined if there is none. */
+  const select = useCallback(async (id: string): Promise<Thread | undefined> => {
+    try {
+      const thread = await getThread(id);
+      if (thread) show(id, await listMessages(id));
+      return thread;
+    } catch (err) {
+      reportError(err);
+      return undefined;
+    }
+  }, []);
+
+  const startNew = useCallback(() => show(null, []), []);
+
+  /**
+   * Adds a turn to `threadId` (default: the active thread, created if there
+   * is none) and returns the id it was stored under. Turns for a thread that
+   * is no longer active are persisted without touching the visible list.
+   */
+  const append = useCallback(
+    async (message: ChatMessage, threadId = activeIdRef.current) => {
+      let id = threadId;
+      if (!id) {
+        id = crypto.randomUUID();
+        activeIdRef.current = id;
+        setActiveId(id);
+        const now = Date.now();
+        await putThread({
+          id,
+          title: titleFor(message),
+          agentId: agentIdRef.current,
+          pinned: false,
+          createdAt: now,
+          updatedAt: now,
+        }).catch(reportError);
+      }
+      if (id === activeIdRef.current) {
+        messagesRef.current = [...messagesRef.current, message];
+        setMessages(messagesRef.current);
+      }
+      await addMessage(id, message).catch(reportError);
+      await refresh();
+      return id;
+    },
+    [refresh]
+  );
+
+  const update = useCallback(
+    async (id: string, patch: Partial<Omit<ChatMessage, "id">>) => {
+      if (messagesRef.current.some((m) => m.id === id)) {
+        messagesRef.current = messagesRef.current.map((m) =>
+          m.id === id ? { ...m, ...patch } : m
+        );
+        setMessages(messagesRef.current);
+      }
+      await updateMessage(id, patch).catch(reportError);
+    },
+    []
+  );
+
+  const rename = useCallback(
+    async (id: string, title: string) => {
+      await updateThread(id, { title: title.trim() || "Untitled" }).catch(
+        reportError
+      );
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const togglePin = useCallback(
+    async (id: string) => {
+      const thread = threads.find((t) => t.id === id);
+      if (!thread) return;
+      await updateThread(id, { pinned: !thread.pinned }).catch(reportError);
+      await refresh();
+    },
+    [threads, refresh]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      await deleteThread(id).catch(reportError);
+      if (id === activeIdRef.current) show(null, []);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return {
+    threads,
+    activeId,
+    activeIdRef,
+    messages,
+    messagesRef,
+    select,
+    startNew,
+    append,
+    update,
+    rename,
+    togglePin,
+    remove,
+  };
+}
+
+export type Threads = ReturnType<typeof useThreads>;
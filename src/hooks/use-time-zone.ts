@@ -0,0 +1,21 @@
+import { useMemo } from "react";
+
+import { displayTimeZone, useSettings } from "@/lib/settings";
+import { isValidTimeZone } from "@/lib/timezone";
+
+/**
+ * Zones event times are rendered in. `secondaryTimeZone` is null when unset,
+ * unknown to the browser or the same as the primary zone.
+ */
+export function useTimeZones(): { timeZone: string; secondaryTimeZone: string | null } {
+  const time = useSettings((s) => s.time);
+  return useMemo(() => {
+    const timeZone = displayTimeZone(time);
+    const secondary = time.secondaryTimeZone;
+    return {
+      timeZone,
+      secondaryTimeZone:
+        secondary && secondary !== timeZone && isValidTimeZone(secondary) ? secondary : null,
+    };
+  }, [time]);
+}
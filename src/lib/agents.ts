@@ -0,0 +1,192 @@
+// ---------------------------------------------------------------------------
+// Agent registry – the assistants the UI can talk to
+// ---------------------------------------------------------------------------
+// Each agent has a name, an icon, an `/assistant`‑style endpoint, the input
+// modes it accepts, example prompts and the parts of an answer the UI renders
+// for it. Sources, later ones win:
+//   1. Built‑in agents: calendar (on the environment's backend), email triage
+//      and docs Q&A (unavailable until they have an endpoint)
+//   2. Build‑time env: VITE_AGENT_URL_EMAIL, VITE_AGENT_URL_DOCS,
+//      VITE_DEFAULT_AGENT
+//   3. `agents` / `defaultAgent` in the runtime config.json (lib/config)
+// The selected agent is remembered in localStorage; every conversation
+// stores the agent it belongs to (lib/history-db).
+// ---------------------------------------------------------------------------
+
+import { z } from "zod";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+import { ApiUrlSchema } from "@/lib/api";
+
+export const AGENT_MODES = ["voice", "text"] as const;
+export type AgentMode = (typeof AGENT_MODES)[number];
+
+/**
+ * Parts of an answer beyond Markdown:
+ *   • events  – event cards and calendar, .ics import/export, the event form
+ *               and insights
+ *   • actions – `pending_action` confirmations
+ */
+export const AGENT_RENDERERS = ["markdown", "events", "actions"] as const;
+export type AgentRenderer = (typeof AGENT_RENDERERS)[number];
+
+/** Names of the icons the switcher knows (components/agent-switcher). */
+export const AGENT_ICONS = ["calendar", "mail", "book", "bot", "sparkles"] as const;
+export type AgentIconName = (typeof AGENT_ICONS)[number];
+
+export const CALENDAR_AGENT_ID = "calendar";
+
+// ‑‑‑ Schemas --------------------------------------------------------------
+const AgentIdSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9-]*$/, "Use lowercase letters, digits and dashes.");
+
+export const AgentSchema = z.object({
+  id: AgentIdSchema,
+  name: z.string().min(1),
+  description: z.string().default(""),
+  icon: z.enum(AGENT_ICONS).default("bot"),
+  /**
+   * URL or same‑origin path of the agent's `/assistant` endpoint. Omitted:
+   * the active environment's backend (lib/config); empty: not configured.
+   */
+  endpoint: z.union([ApiUrlSchema, z.literal("")]).optional(),
+  modes: z.array(z.enum(AGENT_MODES)).min(1).default(["voice", "text"]),
+  examples: z.array(z.string().min(1)).default([]),
+  renderers: z.array(z.enum(AGENT_RENDERERS)).default(["markdown"]),
+});
+
+export type AgentDefinition = z.infer<typeof AgentSchema>;
+
+/** A config.json entry: patches a known agent, or adds one (then `name` is required). */
+export const AgentPatchSchema = AgentSchema.partial().required({ id: true });
+
+export type AgentPatch = z.infer<typeof AgentPatchSchema>;
+
+// ‑‑‑ Sources --------------------------------------------------------------
+function builtInAgents(): AgentDefinition[] {
+  const env = import.meta.env;
+  return [
+    {
+      id: CALENDAR_AGENT_ID,
+      name: "Calendar",
+      description: "Finds, creates and moves events in Google Calendar.",
+      icon: "calendar",
+      modes: ["voice", "text"],
+      examples: [
+        "Get my events for the next week",
+        "Show my calendar for today",
+        "What meetings do I have tomorrow?",
+      ],
+      renderers: ["markdown", "events", "actions"],
+    },
+    {
+      id: "email",
+      name: "Email triage",
+      description: "Sorts the inbox and drafts replies.",
+      icon: "mail",
+      endpoint: env.VITE_AGENT_URL_EMAIL ?? "",
+      modes: ["voice", "text"],
+      examples: [
+        "Which unread emails need an answer today?",
+        "Summarize the thread with the design agency",
+        "Draft a reply declining Friday's vendor call",
+      ],
+      renderers: ["markdown", "actions"],
+    },
+    {
+      id: "docs",
+      name: "Docs Q&A",
+      description: "Answers questions from the team's documentation.",
+      icon: "book",
+      endpoint: env.VITE_AGENT_URL_DOCS ?? "",
+      modes: ["text"],
+      examples: [
+        "How do I rotate the staging API keys?",
+        "What is our on‑call escalation policy?",
+        "Where is the release checklist?",
+      ],
+      renderers: ["markdown"],
+    },
+  ];
+}
+
+function buildTimeDefault(agents: AgentDefinition[]): string {
+  const id = import.meta.env.VITE_DEFAULT_AGENT;
+  return agents.some((a) => a.id === id) ? id! : CALENDAR_AGENT_ID;
+}
+
+function applyPatches(base: AgentDefinition[], patches: AgentPatch[]): AgentDefinition[] {
+  const merged = [...base];
+  for (const patch of patches) {
+    const index = merged.findIndex((a) => a.id === patch.id);
+    if (index >= 0) {
+      merged[index] = { ...merged[index], ...patch };
+      continue;
+    }
+    const added = AgentSchema.safeParse(patch);
+    if (added.success) merged.push(added.data);
+    else console.error(`Ignoring agent "${patch.id}" from config.json`, added.error.issues);
+  }
+  return merged;
+}
+
+// ‑‑‑ Store ----------------------------------------------------------------
+interface AgentState {
+  agents: AgentDefinition[];
+  defaultAgent: string;
+  /** User's choice from the switcher; `null` follows the default. */
+  selected: string | null;
+  setAgent: (id: string | null) => void;
+}
+
+const initialAgents = builtInAgents();
+
+export const useAgents = create<AgentState>()(
+  persist(
+    (set) => ({
+      agents: initialAgents,
+      defaultAgent: buildTimeDefault(initialAgents),
+      selected: null,
+      setAgent: (id) => set({ selected: id }),
+    }),
+    {
+      name: "agent-app:agent",
+      // only the user's choice is persisted – definitions always come from config
+      partialize: (state) => ({ selected: state.selected }),
+    }
+  )
+);
+
+/** Whether requests can be sent to `agent` (it has, or inherits, an endpoint). */
+export function isAgentAvailable(agent: AgentDefinition): boolean {
+  return agent.endpoint !== "";
+}
+
+/** The agent `id` names, or the default agent for unknown and missing ids. */
+export function findAgent(
+  id: string | null | undefined,
+  state: AgentState = useAgents.getState()
+): AgentDefinition {
+  return (
+    state.agents.find((a) => a.id === id) ??
+    state.agents.find((a) => a.id === state.defaultAgent) ??
+    state.agents[0]
+  );
+}
+
+/** The agent new conversations go to. */
+export function activeAgent(state: AgentState = useAgents.getState()): AgentDefinition {
+  const selected = state.selected ? findAgent(state.selected, state) : undefined;
+  return selected && isAgentAvailable(selected) ? selected : findAgent(state.defaultAgent, state);
+}
+
+/** Merges the `agents` and `defaultAgent` of config.json over the built‑ins. */
+export function applyRuntimeAgents(patches: AgentPatch[], defaultAgent?: string): void {
+  useAgents.setState((state) => {
+    const agents = applyPatches(state.agents, patches);
+    const known = defaultAgent && agents.some((a) => a.id === defaultAgent);
+    return { agents, defaultAgent: known ? defaultAgent : state.defaultAgent };
+  });
+}
@@ -0,0 +1,637 @@
+// ---------------------------------------------------------------------------
+// Assistant API client – typed, schema‑validated access to `/assistant`
+// ---------------------------------------------------------------------------
+//   • Text request:  POST JSON { query, history?, events?, range? }
+//   • Voice request: POST FormData { audio: Blob, history?, events?: JSON string }
+//   • Event action:  POST JSON { action: { type, event }, history? }
+//   • Confirmation:  POST JSON { confirmation: { action_id, approved }, history? }
+//   Every request also carries the user's `timezone` (IANA) and `locale`, and
+//   the `thread_id` of the conversation once the backend named one.
+//   • Response:      { text?, audio_b64?, mime?, events?, pending_action?,
+//     thread_id? } – at least one of the first five, or an SSE body (see
+//     `readStream` below)
+// Every failure is surfaced as an `AssistantApiError` with a `kind`, so the
+// UI can tell a dead network from a malformed payload. Requests can be
+// cancelled, time out when the backend goes quiet, and are retried with
+// exponential backoff on network errors, timeouts and 5xx responses.
+// ---------------------------------------------------------------------------
+
+import { z } from "zod";
+
+import { CalendarEventSchema } from "@/lib/events";
+import type { CalendarEvent } from "@/lib/events";
+import { ConfirmationSchema, PendingActionSchema } from "@/lib/pending-action";
+import type { PendingAction } from "@/lib/pending-action";
+import { readSse } from "@/lib/sse";
+import type { SseEvent } from "@/lib/sse";
+
+// ‑‑‑ Schemas --------------------------------------------------------------
+/** An absolute URL, or a path on this origin such as `/assistant`. */
+export const ApiUrlSchema = z.union([
+  z.string().url(),
+  z.string().regex(/^\/(?!\/)/, "Expected a URL or a path starting with /."),
+]);
+
+export const HistoryTurnSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+});
+
+/** Where and how the user reads dates; sent with every request. */
+const ClientContextFields = {
+  timezone: z.string().min(1).optional(),
+  locale: z.string().min(1).optional(),
+  /** The backend's id for the conversation, from an earlier `thread_id`. */
+  thread_id: z.string().min(1).optional(),
+};
+
+/** Events the user attached (e.g. an imported .ics), in wire shape. */
+const AttachedEventsSchema = z.array(CalendarEventSchema.innerType());
+
+const DateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD.");
+
+/** Days a request is about, both inclusive (e.g. the insights dashboard). */
+export const DateRangeSchema = z
+  .object({ start: DateOnlySchema, end: DateOnlySchema })
+  .refine((r) => r.start <= r.end, { message: "The range ends before it starts." });
+
+export const TextRequestSchema = z.object({
+  query: z.string().trim().min(1, "Please enter a request."),
+  history: z.array(HistoryTurnSchema).optional(),
+  events: AttachedEventsSchema.optional(),
+  range: DateRangeSchema.optional(),
+  ...ClientContextFields,
+});
+
+export const EVENT_ACTIONS = ["create_event", "update_event"] as const;
+
+/** A change made in the event form, sent instead of a natural‑language query. */
+export const EventActionSchema = z.object({
+  type: z.enum(EVENT_ACTIONS),
+  // validated in wire shape – the backend gets exactly what it would send
+  event: CalendarEventSchema.innerType(),
+});
+
+export const ActionRequestSchema = z.object({
+  action: EventActionSchema,
+  history: z.array(HistoryTurnSchema).optional(),
+  ...ClientContextFields,
+});
+
+/** The user's answer to a `pending_action`. */
+export const ConfirmationRequestSchema = z.object({
+  confirmation: ConfirmationSchema,
+  history: z.array(HistoryTurnSchema).optional(),
+  ...ClientContextFields,
+});
+
+export const VoiceRequestSchema = z.object({
+  audio: z
+    .instanceof(Blob, { message: "Recording is missing." })
+    .refine((b) => b.size > 0, "Empty recording, try again."),
+  filename: z.string().default("recording.webm"),
+  history: z.array(HistoryTurnSchema).optional(),
+  events: AttachedEventsSchema.optional(),
+  ...ClientContextFields,
+});
+
+// Older backends answer text queries with { result } / { output } / { message }.
+const LEGACY_TEXT_KEYS = ["result", "output", "message"] as const;
+
+const ResponseFieldsSchema = z.object({
+  text: z.string().optional(),
+  audio_b64: z.string().min(1).optional(),
+  mime: z.string().min(1).optional(),
+  /** What the backend heard in a voice request. */
+  transcript: z.string().optional(),
+  /** Structured events behind the Markdown answer (lib/events). */
+  events: z.array(CalendarEventSchema).optional(),
+  /** A change that waits for the user's approval (lib/pending-action). */
+  pending_action: PendingActionSchema.optional(),
+  /** Names the conversation on the backend (e.g. a Langbase thread). */
+  thread_id: z.string().min(1).optional(),
+});
+
+const hasContent = (r: z.infer<typeof ResponseFieldsSchema>) =>
+  !!r.text?.trim() || !!r.audio_b64 || !!r.events?.length || !!r.pending_action;
+
+export const AssistantResponseSchema = z.preprocess(
+  (raw) => {
+    if (!raw || typeof raw !== "object" || "text" in raw) return raw;
+    const data = raw as Record<string, unknown>;
+    const key = LEGACY_TEXT_KEYS.find((k) => typeof data[k] === "string");
+    return key ? { ...data, text: data[key] } : raw;
+  },
+  ResponseFieldsSchema.refine(hasContent, {
+    message: "Response contains neither text, audio, events nor a pending action.",
+  })
+);
+
+// SSE payloads: `text` (or unnamed) events carry Markdown deltas, `audio`
+// events carry independently playable TTS segments, `transcript` reports the
+// recognised request early, `done` may repeat the full response, `error`
+// aborts the stream.
+export const TextDeltaSchema = z.object({ delta: z.string() });
+export const TranscriptEventSchema = z.object({ transcript: z.string() });
+export const AudioChunkSchema = z.object({
+  audio_b64: z.string().min(1),
+  mime: z.string().min(1).optional(),
+});
+
+export const ErrorBodySchema = z.object({
+  error: z.string(),
+  detail: z.string().optional(),
+});
+
+export type HistoryTurn = z.infer<typeof HistoryTurnSchema>;
+export type TextRequest = z.input<typeof TextRequestSchema>;
+export type VoiceRequest = z.input<typeof VoiceRequestSchema>;
+export type EventAction = z.input<typeof EventActionSchema>;
+export type ActionRequest = z.input<typeof ActionRequestSchema>;
+export type ConfirmationRequest = z.input<typeof ConfirmationRequestSchema>;
+export type AssistantResponse = z.infer<typeof AssistantResponseSchema>;
+
+/** Decoded answer, the same whether it arrived as JSON or as a stream. */
+export interface AssistantReply {
+  text?: string;
+  audio?: Blob;
+  transcript?: string;
+  events?: CalendarEvent[];
+  pendingAction?: PendingAction;
+  threadId?: string;
+  streamed: boolean;
+}
+
+export interface StreamHandlers {
+  /** Called with the full Markdown received so far. */
+  onText?: (text: string) => void;
+  /** Called for each TTS segment as soon as it is decoded. */
+  onAudioChunk?: (chunk: Blob) => void;
+  /** Called once the backend has recognised a voice request. */
+  onTranscript?: (transcript: string) => void;
+}
+
+export interface RequestOptions extends StreamHandlers {
+  /** Cancels the request (and any pending retry). */
+  signal?: AbortSignal;
+  /** Max silence before giving up: until headers, then between events. */
+  timeoutMs?: number;
+  /** Extra attempts after the first one for retryable failures. */
+  retries?: number;
+  /** Called before each retry with the upcoming attempt number (1‑based). */
+  onRetry?: (attempt: number, delayMs: number, error: AssistantApiError) => void;
+}
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+export const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8_000;
+
+// ‑‑‑ Errors ---------------------------------------------------------------
+export type ApiErrorKind =
+  | "invalid_request" // rejected before sending
+  | "network" // fetch itself failed
+  | "http" // non‑2xx status
+  | "invalid_response" // body is not a valid assistant response
+  | "timeout" // backend went quiet for longer than `timeoutMs`
+  | "aborted"; // cancelled by the caller
+
+export class AssistantApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  /** Human‑readable validation problems, if any. */
+  readonly issues: string[];
+  /** Whether sending the same request again may succeed. */
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    opts: {
+      status?: number;
+      issues?: string[];
+      retryable?: boolean;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message);
+    this.name = "AssistantApiError";
+    this.cause = opts.cause;
+    this.kind = kind;
+    this.status = opts.status;
+    this.issues = opts.issues ?? [];
+    this.retryable = opts.retryable ?? false;
+  }
+}
+
+/** Formats zod issues as `path: message` lines. */
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((i) =>
+    i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message
+  );
+}
+
+/** Title + optional description, ready for `toast.error`. */
+export function describeApiError(err: unknown): {
+  title: string;
+  description?: string;
+} {
+  if (err instanceof AssistantApiError) {
+    const description = err.issues.join("\n") || undefined;
+    switch (err.kind) {
+      case "network":
+        return { title: "Cannot reach the assistant.", description: err.message };
+      case "invalid_response":
+        return { title: "The assistant sent an invalid response.", description };
+      case "timeout":
+        return { title: "The assistant took too long to answer.", description };
+      default:
+        return { title: err.message, description };
+    }
+  }
+  return { title: (err as Error)?.message || "Request failed" };
+}
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+export function base64ToBlob(
+  base64: string,
+  mime = "application/octet-stream"
+): Blob {
+  const dataPart = base64.includes(",") ? base64.split(",")[1] : base64;
+  const binary = atob(dataPart);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+}
+
+function decodeAudio(base64: string, mime = "audio/mpeg"): Blob {
+  try {
+    return base64ToBlob(base64, mime);
+  } catch (cause) {
+    throw new AssistantApiError(
+      "invalid_response",
+      "Audio payload is not valid base64.",
+      { issues: ["audio_b64: not valid base64"], cause }
+    );
+  }
+}
+
+async function readBody(res: Response): Promise<unknown> {
+  const raw = await res.text();
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function parseEvent<S extends z.ZodTypeAny>(
+  schema: S,
+  ev: SseEvent
+): z.infer<S> {
+  let json: unknown;
+  try {
+    json = JSON.parse(ev.data);
+  } catch {
+    throw new AssistantApiError("invalid_response", "Invalid stream event.", {
+      issues: [`${ev.event}: data is not JSON`],
+    });
+  }
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    throw new AssistantApiError("invalid_response", "Invalid stream event.", {
+      issues: formatIssues(parsed.error).map((i) => `${ev.event}: ${i}`),
+    });
+  }
+  return parsed.data;
+}
+
+async function readStream(
+  body: ReadableStream<Uint8Array>,
+  handlers: StreamHandlers,
+  onActivity: () => void
+): Promise<AssistantReply> {
+  let text = "";
+  let transcript: string | undefined;
+  const chunks: Blob[] = [];
+  let final: z.infer<typeof ResponseFieldsSchema> | null = null;
+
+  for await (const ev of readSse(body)) {
+    onActivity();
+    if (ev.event === "message" || ev.event === "text") {
+      text += parseEvent(TextDeltaSchema, ev).delta;
+      handlers.onText?.(text);
+    } else if (ev.event === "audio") {
+      const chunk = parseEvent(AudioChunkSchema, ev);
+      const blob = decodeAudio(chunk.audio_b64, chunk.mime);
+      chunks.push(blob);
+      handlers.onAudioChunk?.(blob);
+    } else if (ev.event === "transcript") {
+      transcript = parseEvent(TranscriptEventSchema, ev).transcript;
+      handlers.onTranscript?.(transcript);
+    } else if (ev.event === "error") {
+      let json: unknown = null;
+      try {
+        json = JSON.parse(ev.data);
+      } catch {
+        // plain‑text error message
+      }
+      const parsed = ErrorBodySchema.safeParse(json);
+      throw new AssistantApiError(
+        "http",
+        parsed.success ? parsed.data.error : ev.data || "The assistant stream failed.",
+        { issues: parsed.success && parsed.data.detail ? [parsed.data.detail] : [] }
+      );
+    } else if (ev.event === "done") {
+      final = parseEvent(ResponseFieldsSchema, ev);
+      break;
+    }
+    // unknown events are ignored so the backend can add new ones
+  }
+
+  if (!final) {
+    throw new AssistantApiError("invalid_response", "The answer was cut off.", {
+      issues: ["Stream ended without a done event."],
+    });
+  }
+
+  const reply: AssistantReply = {
+    text: final.text ?? text,
+    audio: final.audio_b64
+      ? decodeAudio(final.audio_b64, final.mime)
+      : chunks.length
+        ? new Blob(chunks, { type: chunks[0].type })
+        : undefined,
+    transcript: final.transcript ?? transcript,
+    events: final.events,
+    pendingAction: final.pending_action,
+    threadId: final.thread_id,
+    streamed: true,
+  };
+  if (!reply.text?.trim() && !reply.audio && !reply.events?.length && !reply.pendingAction) {
+    throw new AssistantApiError("invalid_response", "Invalid assistant response.", {
+      issues: ["Stream contained neither text, audio, events nor a pending action."],
+    });
+  }
+  return reply;
+}
+
+interface PostInit {
+  body: BodyInit;
+  headers?: Record<string, string>;
+}
+
+/** One round trip; `signal` aborts it, `onActivity` feeds the idle timer. */
+async function attempt(
+  url: string,
+  init: PostInit,
+  handlers: StreamHandlers,
+  signal: AbortSignal,
+  onActivity: () => void
+): Promise<AssistantReply> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      body: init.body,
+      // streaming is opt‑in on the backend; plain JSON remains the fallback
+      headers: { Accept: "text/event-stream, application/json", ...init.headers },
+      signal,
+    });
+  } catch (cause) {
+    throw new AssistantApiError(
+      "network",
+      (cause as Error)?.message || "Network error",
+      { retryable: true, cause }
+    );
+  }
+  onActivity();
+
+  const contentType = res.headers.get("content-type") ?? "";
+  if (res.ok && res.body && contentType.includes("text/event-stream")) {
+    return readStream(res.body, handlers, onActivity);
+  }
+
+  const body = await readBody(res);
+
+  if (!res.ok) {
+    const parsed = ErrorBodySchema.safeParse(body);
+    const message = parsed.success
+      ? parsed.data.error
+      : typeof body === "string" && body
+        ? body
+        : `HTTP ${res.status} ${res.statusText}`.trim();
+    throw new AssistantApiError("http", message, {
+      status: res.status,
+      issues: parsed.success && parsed.data.detail ? [parsed.data.detail] : [],
+      retryable: res.status >= 500,
+    });
+  }
+
+  if (typeof body !== "object" || body === null) {
+    throw new AssistantApiError(
+      "invalid_response",
+      "Expected a JSON object from the assistant.",
+      { status: res.status, issues: [body ? "Body is not JSON." : "Body is empty."] }
+    );
+  }
+
+  const parsed = AssistantResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new AssistantApiError("invalid_response", "Invalid assistant response.", {
+      status: res.status,
+      issues: formatIssues(parsed.error),
+    });
+  }
+  return {
+    text: parsed.data.text,
+    audio: parsed.data.audio_b64
+      ? decodeAudio(parsed.data.audio_b64, parsed.data.mime)
+      : undefined,
+    transcript: parsed.data.transcript,
+    events: parsed.data.events,
+    pendingAction: parsed.data.pending_action,
+    threadId: parsed.data.thread_id,
+    streamed: false,
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AssistantApiError("aborted", "Request cancelled."));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Full‑jitter exponential backoff. */
+function backoffDelay(retry: number): number {
+  const cap = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** retry);
+  return Math.round(cap / 2 + (Math.random() * cap) / 2);
+}
+
+async function post(
+  url: string,
+  init: PostInit,
+  options: RequestOptions = {}
+): Promise<AssistantReply> {
+  const {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    onRetry,
+    ...handlers
+  } = options;
+
+  for (let n = 0; ; n++) {
+    if (signal?.aborted) throw new AssistantApiError("aborted", "Request cancelled.");
+
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    signal?.addEventListener("abort", cancel, { once: true });
+
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onActivity = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    };
+    // once the answer starts rendering, a retry would show it twice
+    let started = false;
+    const tracked: StreamHandlers = {
+      onText: (text) => {
+        started = true;
+        handlers.onText?.(text);
+      },
+      onAudioChunk: (chunk) => {
+        started = true;
+        handlers.onAudioChunk?.(chunk);
+      },
+      // the transcript is shown as the user's turn, so it counts as output too
+      onTranscript: (transcript) => {
+        started = true;
+        handlers.onTranscript?.(transcript);
+      },
+    };
+
+    try {
+      onActivity();
+      return await attempt(url, init, tracked, controller.signal, onActivity);
+    } catch (cause) {
+      let err =
+        cause instanceof AssistantApiError
+          ? cause
+          : new AssistantApiError("network", (cause as Error)?.message || "Network error", {
+              retryable: true,
+              cause,
+            });
+      if (signal?.aborted) {
+        throw new AssistantApiError("aborted", "Request cancelled.", { cause });
+      }
+      if (timedOut) {
+        err = new AssistantApiError("timeout", `No response within ${timeoutMs / 1000} s.`, {
+          retryable: true,
+          cause,
+        });
+      }
+      if (!err.retryable || started || n >= retries) throw err;
+
+      const delay = backoffDelay(n);
+      onRetry?.(n + 2, delay, err);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", cancel);
+    }
+  }
+}
+
+function validate<S extends z.ZodTypeAny>(schema: S, input: unknown): z.infer<S> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    const issues = formatIssues(parsed.error);
+    throw new AssistantApiError("invalid_request", issues[0], { issues });
+  }
+  return parsed.data;
+}
+
+// ‑‑‑ Requests -------------------------------------------------------------
+export async function sendTextRequest(
+  url: string,
+  request: TextRequest,
+  options?: RequestOptions
+): Promise<AssistantReply> {
+  const body = validate(TextRequestSchema, request);
+  return post(
+    url,
+    {
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+    options
+  );
+}
+
+/** Posts a structured event action as JSON `{ action, history }`. */
+export async function sendActionRequest(
+  url: string,
+  request: ActionRequest,
+  options?: RequestOptions
+): Promise<AssistantReply> {
+  const body = validate(ActionRequestSchema, request);
+  return post(
+    url,
+    {
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+    options
+  );
+}
+
+/** Posts the approval or rejection of a pending action. */
+export async function sendConfirmation(
+  url: string,
+  request: ConfirmationRequest,
+  options?: RequestOptions
+): Promise<AssistantReply> {
+  const body = validate(ConfirmationRequestSchema, request);
+  return post(
+    url,
+    {
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+    options
+  );
+}
+
+export async function sendVoiceRequest(
+  url: string,
+  request: VoiceRequest,
+  options?: RequestOptions
+): Promise<AssistantReply> {
+  const { audio, filename, history, events, timezone, locale, thread_id } = validate(
+    VoiceRequestSchema,
+    request
+  );
+  const fd = new FormData();
+  fd.append("audio", audio, filename);
+  if (history) fd.append("history", JSON.stringify(history));
+  if (events) fd.append("events", JSON.stringify(events));
+  if (timezone) fd.append("timezone", timezone);
+  if (locale) fd.append("locale", locale);
+  if (thread_id) fd.append("thread_id", thread_id);
+  return post(url, { body: fd }, options);
+}
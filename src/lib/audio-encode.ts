@@ -0,0 +1,114 @@
+// ---------------------------------------------------------------------------
+// Upload encoding – recordings → the format the active backend accepts
+// ---------------------------------------------------------------------------
+// "original" forwards what MediaRecorder produced (WebM/Opus in Chrome and
+// Firefox, MP4/AAC in Safari). "wav" and "flac" decode it with Web Audio,
+// downmix and resample to 16 kHz mono and encode 16‑bit PCM – what most
+// speech‑to‑text services expect.
+// ---------------------------------------------------------------------------
+
+import { encodeFlac } from "@/lib/flac";
+
+export const AUDIO_FORMATS = ["original", "wav", "flac"] as const;
+export type AudioFormat = (typeof AUDIO_FORMATS)[number];
+
+export const SPEECH_SAMPLE_RATE = 16_000;
+
+export interface EncodedAudio {
+  audio: Blob;
+  filename: string;
+}
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+/** File extension for a MediaRecorder mime type. */
+function extensionFor(mime: string): string {
+  const type = mime.split(";")[0].trim();
+  if (type.endsWith("/mp4") || type === "audio/aac") return "m4a";
+  if (type.endsWith("/ogg")) return "ogg";
+  if (type === "audio/wav" || type === "audio/x-wav") return "wav";
+  return "webm";
+}
+
+/** Decodes any browser‑playable recording to mono samples at `sampleRate`. */
+async function decodeMono(blob: Blob, sampleRate: number): Promise<Float32Array> {
+  const data = await blob.arrayBuffer();
+  // an offline context decodes straight to its own sample rate
+  const decoder = new OfflineAudioContext(1, 1, sampleRate);
+  const decoded = await decoder.decodeAudioData(data);
+  if (decoded.numberOfChannels === 1) return decoded.getChannelData(0);
+
+  const mono = new Float32Array(decoded.length);
+  for (let c = 0; c < decoded.numberOfChannels; c++) {
+    const channel = decoded.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / decoded.numberOfChannels;
+  }
+  return mono;
+}
+
+function toInt16(samples: Float32Array): Int16Array {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return out;
+}
+
+/** RIFF/WAVE file around 16‑bit mono PCM. */
+function encodeWav(samples: Int16Array, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  ascii(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  ascii(8, "WAVE");
+  ascii(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  ascii(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  new Int16Array(buffer, 44).set(samples);
+  return buffer;
+}
+
+// ‑‑‑ Public ---------------------------------------------------------------
+/**
+ * Prepares a recording for upload in `format`, with a matching filename so
+ * the multipart part carries the right extension and content type.
+ */
+export async function encodeForUpload(
+  recording: Blob,
+  format: AudioFormat
+): Promise<EncodedAudio> {
+  if (format === "original") {
+    const type = recording.type || "audio/webm";
+    return { audio: recording, filename: `recording.${extensionFor(type)}` };
+  }
+
+  let pcm: Int16Array;
+  try {
+    pcm = toInt16(await decodeMono(recording, SPEECH_SAMPLE_RATE));
+  } catch (err) {
+    console.error(err);
+    throw new Error(`Could not convert the recording to ${format.toUpperCase()}.`);
+  }
+
+  if (format === "flac") {
+    return {
+      audio: new Blob([encodeFlac(pcm, SPEECH_SAMPLE_RATE)], { type: "audio/flac" }),
+      filename: "recording.flac",
+    };
+  }
+  return {
+    audio: new Blob([encodeWav(pcm, SPEECH_SAMPLE_RATE)], { type: "audio/wav" }),
+    filename: "recording.wav",
+  };
+}
@@ -0,0 +1,219 @@
+// ---------------------------------------------------------------------------
+// Backend configuration – one place that decides where `/assistant` lives
+// ---------------------------------------------------------------------------
+// Sources, later ones win:
+//   1. Built‑in defaults: same‑origin `/assistant`, i.e. the BFF in server/
+//      (Vite proxies it in development)
+//   2. Build‑time env: VITE_API_URL (default environment) and
+//      VITE_API_URL_LOCAL / _STAGING / _PROD, VITE_DEFAULT_ENV,
+//      VITE_REQUEST_TIMEOUT_MS, VITE_REQUEST_RETRIES, VITE_AUDIO_FORMAT
+//   3. Runtime `config.json` served next to the built `index.html`, which
+//      may also describe agents (lib/agents)
+// The selected environment is remembered in localStorage, so the same build
+// can be pointed at another backend from the UI without a rebuild.
+// ---------------------------------------------------------------------------
+
+import { z } from "zod";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+import { AgentPatchSchema, applyRuntimeAgents } from "@/lib/agents";
+import type { AgentDefinition } from "@/lib/agents";
+import { ApiUrlSchema, DEFAULT_RETRIES, DEFAULT_TIMEOUT_MS } from "@/lib/api";
+import { AUDIO_FORMATS } from "@/lib/audio-encode";
+import type { AudioFormat } from "@/lib/audio-encode";
+
+export const ENVIRONMENTS = ["local", "staging", "prod"] as const;
+export type EnvironmentName = (typeof ENVIRONMENTS)[number];
+
+export interface EnvironmentConfig {
+  label: string;
+  /** URL or same‑origin path of the `/assistant` endpoint; empty when not configured. */
+  apiUrl: string;
+  /** Encoding for voice uploads; "original" sends the MediaRecorder output. */
+  audioFormat: AudioFormat;
+}
+
+export type EnvironmentMap = Record<EnvironmentName, EnvironmentConfig>;
+
+export interface RequestPolicy {
+  timeoutMs: number;
+  retries: number;
+}
+
+// ‑‑‑ Sources --------------------------------------------------------------
+const AudioFormatSchema = z.enum(AUDIO_FORMATS);
+
+const DEFAULT_AUDIO_FORMAT: AudioFormat =
+  AudioFormatSchema.catch("original").parse(import.meta.env.VITE_AUDIO_FORMAT);
+
+/** The BFF's proxy; the agent's real address stays on the server. */
+const SAME_ORIGIN_API = "/assistant";
+
+const DEFAULTS: EnvironmentMap = {
+  local: { label: "Local", apiUrl: SAME_ORIGIN_API, audioFormat: DEFAULT_AUDIO_FORMAT },
+  staging: { label: "Staging", apiUrl: "", audioFormat: DEFAULT_AUDIO_FORMAT },
+  prod: { label: "Production", apiUrl: SAME_ORIGIN_API, audioFormat: DEFAULT_AUDIO_FORMAT },
+};
+
+const EnvironmentNameSchema = z.enum(ENVIRONMENTS);
+
+export const RuntimeConfigSchema = z.object({
+  defaultEnvironment: EnvironmentNameSchema.optional(),
+  environments: z
+    .record(
+      EnvironmentNameSchema,
+      z.object({
+        label: z.string().optional(),
+        apiUrl: ApiUrlSchema.optional(),
+        audioFormat: AudioFormatSchema.optional(),
+      })
+    )
+    .default({}),
+  request: z
+    .object({
+      timeoutMs: z.number().int().positive().optional(),
+      retries: z.number().int().min(0).max(10).optional(),
+    })
+    .optional(),
+  defaultAgent: z.string().optional(),
+  agents: z.array(AgentPatchSchema).default([]),
+});
+
+export type RuntimeConfig = z.infer<typeof RuntimeConfigSchema>;
+
+function buildTimeDefault(): EnvironmentName {
+  const parsed = EnvironmentNameSchema.safeParse(import.meta.env.VITE_DEFAULT_ENV);
+  if (parsed.success) return parsed.data;
+  return import.meta.env.DEV ? "local" : "prod";
+}
+
+function buildTimeEnvironments(): EnvironmentMap {
+  const env = import.meta.env;
+  const byName: Record<EnvironmentName, string | undefined> = {
+    local: env.VITE_API_URL_LOCAL,
+    staging: env.VITE_API_URL_STAGING,
+    prod: env.VITE_API_URL_PROD,
+  };
+  // VITE_API_URL is the README's single knob – it targets the default env
+  const fallback = buildTimeDefault();
+  if (env.VITE_API_URL && !byName[fallback]) byName[fallback] = env.VITE_API_URL;
+
+  const merged = { ...DEFAULTS };
+  for (const name of ENVIRONMENTS) {
+    const apiUrl = byName[name];
+    if (apiUrl) merged[name] = { ...merged[name], apiUrl };
+  }
+  return merged;
+}
+
+function buildTimeRequestPolicy(): RequestPolicy {
+  const timeoutMs = Number(import.meta.env.VITE_REQUEST_TIMEOUT_MS);
+  const retries = Number(import.meta.env.VITE_REQUEST_RETRIES);
+  return {
+    timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+    retries: Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_RETRIES,
+  };
+}
+
+function applyRuntime(base: EnvironmentMap, runtime: RuntimeConfig): EnvironmentMap {
+  const merged = { ...base };
+  for (const name of ENVIRONMENTS) {
+    const patch = runtime.environments[name];
+    if (!patch) continue;
+    merged[name] = {
+      label: patch.label ?? merged[name].label,
+      apiUrl: patch.apiUrl ?? merged[name].apiUrl,
+      audioFormat: patch.audioFormat ?? merged[name].audioFormat,
+    };
+  }
+  return merged;
+}
+
+// ‑‑‑ Store ----------------------------------------------------------------
+interface ConfigState {
+  environments: EnvironmentMap;
+  defaultEnvironment: EnvironmentName;
+  request: RequestPolicy;
+  /** User's choice from the switcher; `null` follows the default. */
+  selected: EnvironmentName | null;
+  setEnvironment: (name: EnvironmentName | null) => void;
+}
+
+export const useConfig = create<ConfigState>()(
+  persist(
+    (set) => ({
+      environments: buildTimeEnvironments(),
+      defaultEnvironment: buildTimeDefault(),
+      request: buildTimeRequestPolicy(),
+      selected: null,
+      setEnvironment: (name) => set({ selected: name }),
+    }),
+    {
+      name: "agent-app:environment",
+      // only the user's choice is persisted – URLs always come from config
+      partialize: (state) => ({ selected: state.selected }),
+    }
+  )
+);
+
+/** Name of the environment requests currently go to. */
+export function activeEnvironment(state: ConfigState = useConfig.getState()) {
+  const name = state.selected ?? state.defaultEnvironment;
+  return state.environments[name].apiUrl ? name : state.defaultEnvironment;
+}
+
+/** `/assistant` URL for the active environment, read at call time. */
+export function getApiUrl(): string {
+  const state = useConfig.getState();
+  const url = state.environments[activeEnvironment(state)].apiUrl;
+  if (!url) throw new Error("No backend URL configured for this environment.");
+  return url;
+}
+
+/** `/assistant` URL of `agent`: its own endpoint, else the active environment's. */
+export function getAgentUrl(agent: AgentDefinition): string {
+  if (agent.endpoint === "") throw new Error(`No endpoint configured for ${agent.name}.`);
+  return agent.endpoint ?? getApiUrl();
+}
+
+/** Upload encoding the active backend accepts. */
+export function getAudioFormat(): AudioFormat {
+  const state = useConfig.getState();
+  return state.environments[activeEnvironment(state)].audioFormat;
+}
+
+/** Timeout and retry budget for assistant requests. */
+export function getRequestPolicy(): RequestPolicy {
+  return useConfig.getState().request;
+}
+
+/**
+ * Fetches `config.json` from the deployed site and merges it over the
+ * build‑time values. A missing file is normal; an invalid one is reported
+ * and ignored so a bad deploy never blanks the app.
+ */
+export async function loadRuntimeConfig(): Promise<void> {
+  let raw: unknown;
+  try {
+    const res = await fetch(`${import.meta.env.BASE_URL}config.json`, {
+      cache: "no-store",
+    });
+    if (!res.ok) return;
+    raw = await res.json();
+  } catch {
+    return;
+  }
+
+  const parsed = RuntimeConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error("Ignoring invalid config.json", parsed.error.issues);
+    return;
+  }
+  useConfig.setState((state) => ({
+    environments: applyRuntime(state.environments, parsed.data),
+    defaultEnvironment: parsed.data.defaultEnvironment ?? state.defaultEnvironment,
+    request: { ...state.request, ...parsed.data.request },
+  }));
+  applyRuntimeAgents(parsed.data.agents, parsed.data.defaultAgent);
+}
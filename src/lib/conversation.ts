@@ -0,0 +1,125 @@
+// ---------------------------------------------------------------------------
+// Conversation model – the turns shown in the thread and sent as context
+// ---------------------------------------------------------------------------
+
+import type { EventAction, HistoryTurn } from "@/lib/api";
+import { describePendingAction } from "@/lib/pending-action";
+import { displayTimeZone } from "@/lib/settings";
+import type { Confirmation, Decision, PendingAction } from "@/lib/pending-action";
+import { summarizeEvents } from "@/lib/events";
+import type { CalendarEvent } from "@/lib/events";
+
+export type { HistoryTurn };
+
+export type Role = HistoryTurn["role"];
+
+/** Events imported from a file and sent along with a user turn. */
+export interface Attachment {
+  filename: string;
+  events: CalendarEvent[];
+}
+
+export interface ChatMessage {
+  id: string;
+  role: Role;
+  /** Typed text (user) or Markdown answer (assistant). */
+  text?: string;
+  /** Recorded request (user) or TTS answer (assistant). */
+  audio?: Blob;
+  /** What the backend heard in a recorded user turn. */
+  transcript?: string;
+  /** Structured events of an assistant answer, rendered as cards. */
+  events?: CalendarEvent[];
+  /** Imported events the user turn asks about. */
+  attachment?: Attachment;
+  /** Event form submission; `text` then describes it for the thread. */
+  action?: EventAction;
+  /** A change the assistant waits to have approved. */
+  pendingAction?: PendingAction;
+  /** What the user answered to `pendingAction`. */
+  decision?: Decision;
+  /** The answer as sent (user turn); `text` describes it. */
+  confirmation?: Confirmation;
+  createdAt: number;
+  /** User turn whose request failed; kept so it can be resent as is. */
+  failed?: boolean;
+  /** The backend's `thread_id` as of this answer. */
+  backendThreadId?: string;
+}
+
+/** How many prior turns are sent along with a new request. */
+export const MAX_HISTORY_TURNS = 20;
+
+export function createMessage(
+  role: Role,
+  fields: Pick<
+    ChatMessage,
+    | "text"
+    | "audio"
+    | "events"
+    | "attachment"
+    | "action"
+    | "pendingAction"
+    | "confirmation"
+    | "backendThreadId"
+  > = {}
+): ChatMessage {
+  return {
+    id: crypto.randomUUID(),
+    role,
+    createdAt: Date.now(),
+    ...fields,
+  };
+}
+
+/** What a turn says, as plain text. */
+function turnContent(m: ChatMessage, timeZone: string): string {
+  const content =
+    m.text?.trim() ||
+    m.transcript?.trim() ||
+    (m.events?.length ? summarizeEvents(m.events, timeZone) : "") ||
+    (m.pendingAction ? `Awaiting confirmation: ${describePendingAction(m.pendingAction)}` : "") ||
+    (m.audio ? "[voice message]" : "");
+  // attached events travel structured only with their own request
+  return m.attachment && content
+    ? `${content}\n\nAttached ${m.attachment.filename}:\n${summarizeEvents(m.attachment.events, timeZone)}`
+    : content;
+}
+
+/**
+ * Flattens the thread into text turns. Voice-only user turns are sent as their
+ * transcript, or as a placeholder to keep the turn order intact; answers made
+ * only of events are sent as a plain listing, pending actions as their summary,
+ * and attached events are listed below their turn.
+ * Times are written in the zone sent as `timezone` with the request.
+ * Failed turns were never answered and are left out.
+ */
+export function toHistory(messages: ChatMessage[]): HistoryTurn[] {
+  const timeZone = displayTimeZone();
+  return messages
+    .filter((m) => !m.failed)
+    .map((m) => ({ role: m.role, content: turnContent(m, timeZone) }))
+    .filter((t) => t.content)
+    .slice(-MAX_HISTORY_TURNS);
+}
+
+/** The `thread_id` to continue the conversation with: the latest one named. */
+export function backendThreadId(messages: ChatMessage[]): string | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].backendThreadId) return messages[i].backendThreadId;
+  }
+  return undefined;
+}
+
+/**
+ * The answer whose pending action still waits for the user: only the latest
+ * answer can, and a confirmation that failed to send leaves it waiting.
+ */
+export function awaitingDecision(messages: ChatMessage[]): ChatMessage | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (m.role === "user" && m.failed && m.confirmation) continue;
+    return m.pendingAction && !m.decision ? m : undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,193 @@
+// ---------------------------------------------------------------------------
+// Event form – values, validation and conversion to/from CalendarEvent
+// ---------------------------------------------------------------------------
+// The form edits dates and "HH:mm" times separately, shows all‑day end dates
+// inclusively and splits the RRULE into fields. Recurrence lines the form
+// cannot express (EXDATE, or a rule using BYMONTHDAY etc.) are kept verbatim
+// so editing the title of such an event does not rewrite its series. Dates
+// and times are read and written in the display `timeZone` when one is given.
+// ---------------------------------------------------------------------------
+
+import { addDays, addHours, format, formatISO, startOfHour } from "date-fns";
+import { z } from "zod";
+
+import { eventEnd, eventStart, formatEventTime } from "@/lib/events";
+import type { Attendee, CalendarEvent } from "@/lib/events";
+import { FREQUENCIES, WEEKDAYS, parseRRule, toRRule } from "@/lib/recurrence";
+import type { Weekday } from "@/lib/recurrence";
+import { formatIsoInZone, fromZonedDate, toZonedDate } from "@/lib/timezone";
+import type { EventAction } from "@/lib/api";
+
+export const REPEAT_OPTIONS = ["none", ...FREQUENCIES, "custom"] as const;
+export const REPEAT_ENDS = ["never", "on", "after"] as const;
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const EventFormSchema = z
+  .object({
+    id: z.string().optional(),
+    calendarId: z.string().optional(),
+    title: z.string().trim().min(1, "Give the event a title").max(200),
+    allDay: z.boolean(),
+    startDate: z.date({ required_error: "Pick a start date" }),
+    startTime: z.string(),
+    endDate: z.date({ required_error: "Pick an end date" }),
+    endTime: z.string(),
+    location: z.string().trim().max(500),
+    description: z.string().trim().max(5000),
+    attendees: z.array(z.string().email("Not a valid email address")),
+    repeat: z.enum(REPEAT_OPTIONS),
+    interval: z.number().int().min(1, "At least 1").max(99),
+    byDay: z.array(z.enum(WEEKDAYS)),
+    ends: z.enum(REPEAT_ENDS),
+    until: z.date().optional(),
+    count: z.number().int().min(1, "At least 1").max(999).optional(),
+    /** Recurrence lines the form leaves untouched. */
+    keptRecurrence: z.array(z.string()),
+  })
+  .superRefine((v, ctx) => {
+    if (!v.allDay) {
+      for (const key of ["startTime", "endTime"] as const) {
+        if (!TIME.test(v[key])) {
+          ctx.addIssue({ code: "custom", path: [key], message: "Enter a time as HH:mm" });
+        }
+      }
+    }
+    const { start, end } = bounds(v);
+    if (v.allDay ? end < start : end <= start) {
+      ctx.addIssue({
+        code: "custom",
+        path: [v.allDay ? "endDate" : "endTime"],
+        message: "The event must end after it starts",
+      });
+    }
+    if (v.repeat === "none" || v.repeat === "custom") return;
+    if (v.ends === "on" && !v.until) {
+      ctx.addIssue({ code: "custom", path: ["until"], message: "Pick the last date" });
+    } else if (v.ends === "on" && v.until && v.until < v.startDate) {
+      ctx.addIssue({ code: "custom", path: ["until"], message: "Must be after the start" });
+    }
+    if (v.ends === "after" && !v.count) {
+      ctx.addIssue({ code: "custom", path: ["count"], message: "How many times?" });
+    }
+  });
+
+export type EventFormValues = z.infer<typeof EventFormSchema>;
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+const withTime = (date: Date, time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), h || 0, m || 0);
+};
+
+/** Start and end as shown in the form (all‑day: both dates inclusive). */
+function bounds(v: Pick<EventFormValues, "allDay" | "startDate" | "startTime" | "endDate" | "endTime">) {
+  return v.allDay
+    ? { start: withTime(v.startDate, "00:00"), end: withTime(v.endDate, "00:00") }
+    : { start: withTime(v.startDate, v.startTime), end: withTime(v.endDate, v.endTime) };
+}
+
+const isRRule = (line: string) => /^RRULE:/i.test(line);
+
+// ‑‑‑ Public ---------------------------------------------------------------
+/** Form values for `event`, or for a new one‑hour event at the next full hour. */
+export function toFormValues(event?: CalendarEvent, timeZone?: string): EventFormValues {
+  const now = timeZone ? toZonedDate(new Date(), timeZone) : new Date();
+  const start = event ? eventStart(event, timeZone) : startOfHour(addHours(now, 1));
+  const end = event ? eventEnd(event, timeZone) : addHours(start, 1);
+  const allDay = event?.allDay ?? false;
+
+  const lines = event?.recurrence ?? [];
+  const rruleLine = lines.find(isRRule);
+  const rule = rruleLine ? parseRRule(rruleLine) : null;
+  const custom = !!rruleLine && !rule;
+
+  return {
+    id: event?.id,
+    calendarId: event?.calendarId,
+    title: event?.title ?? "",
+    allDay,
+    startDate: start,
+    startTime: format(start, "HH:mm"),
+    // the wire end of an all‑day event is exclusive, the form's is not
+    endDate: allDay ? addDays(end, -1) : end,
+    endTime: format(end, "HH:mm"),
+    location: event?.location ?? "",
+    description: event?.description ?? "",
+    attendees: (event?.attendees ?? []).flatMap((a) => (a.email ? [a.email] : [])),
+    repeat: custom ? "custom" : (rule?.freq ?? "none"),
+    interval: rule?.interval ?? 1,
+    byDay: rule?.byDay ?? [],
+    ends: rule?.count ? "after" : rule?.until ? "on" : "never",
+    // a timed UNTIL is an instant; the date picker shows its day in the zone
+    until: rule?.until && !allDay && timeZone ? toZonedDate(rule.until, timeZone) : rule?.until,
+    count: rule?.count,
+    keptRecurrence: custom ? lines : lines.filter((l) => !isRRule(l)),
+  };
+}
+
+/**
+ * The event described by `values`. Attendees already on `original` keep
+ * their name and response status; only new addresses arrive bare.
+ */
+export function toCalendarEvent(
+  values: EventFormValues,
+  original?: CalendarEvent,
+  timeZone?: string
+): CalendarEvent {
+  const { start, end } = bounds(values);
+  const iso = (d: Date) =>
+    timeZone ? formatIsoInZone(fromZonedDate(d, timeZone), timeZone) : formatISO(d);
+  const known = new Map(
+    (original?.attendees ?? []).flatMap((a) => (a.email ? [[a.email.toLowerCase(), a]] : []))
+  );
+  const attendees: Attendee[] = [
+    // people without an address cannot be edited in the form – keep them
+    ...(original?.attendees ?? []).filter((a) => !a.email),
+    ...values.attendees.map((email) => known.get(email.toLowerCase()) ?? { email }),
+  ];
+
+  let recurrence: string[] = [];
+  if (values.repeat === "custom") recurrence = values.keptRecurrence;
+  else if (values.repeat !== "none") {
+    const rrule = toRRule(
+      {
+        freq: values.repeat,
+        interval: values.interval,
+        byDay: values.byDay as Weekday[],
+        count: values.ends === "after" ? values.count : undefined,
+        until: values.ends === "on" ? values.until : undefined,
+      },
+      { allDay: values.allDay, timeZone }
+    );
+    recurrence = [rrule, ...values.keptRecurrence];
+  }
+
+  return {
+    id: values.id,
+    title: values.title.trim(),
+    start: values.allDay ? format(start, "yyyy-MM-dd") : iso(start),
+    end: values.allDay ? format(addDays(end, 1), "yyyy-MM-dd") : iso(end),
+    allDay: values.allDay,
+    location: values.location.trim() || undefined,
+    description: values.description.trim() || undefined,
+    attendees,
+    recurrence: recurrence.length ? recurrence : undefined,
+    // a rule built here repeats in the form's zone; a kept one in its own
+    ...(values.repeat === "custom"
+      ? { timeZone: original?.timeZone, timeZoneDefinition: original?.timeZoneDefinition }
+      : { timeZone: values.allDay ? undefined : timeZone }),
+    link: original?.link,
+    calendarId: values.calendarId,
+  };
+}
+
+/** Chat text for an action: `Create "Standup" · Mon 3 Mar · 09:00 – 09:15`. */
+export function describeEventAction(
+  type: EventAction["type"],
+  event: CalendarEvent,
+  timeZone?: string
+): string {
+  const verb = type === "create_event" ? "Create" : "Update";
+  return `${verb} "${event.title}" · ${formatEventTime(event, timeZone)}`;
+}
@@ -0,0 +1,229 @@
+// ---------------------------------------------------------------------------
+// Calendar events – the structured `events` array of an assistant response
+// ---------------------------------------------------------------------------
+// The wire format is lenient: backends may send our flat shape or pass
+// Google Calendar API events through (`summary`, `start.dateTime`,
+// `attendees[].displayName`, `htmlLink`, …). Both are normalised to
+// `CalendarEvent`, which is what the UI renders and what threads persist.
+// ---------------------------------------------------------------------------
+
+import { format, isSameDay } from "date-fns";
+import { z } from "zod";
+
+import { isValidTimeZone, toZonedDate } from "@/lib/timezone";
+
+export type ResponseStatus = "accepted" | "declined" | "tentative" | "needsAction";
+
+export interface Attendee {
+  email?: string;
+  name?: string;
+  status?: ResponseStatus;
+  organizer?: boolean;
+  /** The attendee is the signed‑in user (Google's `self`). */
+  self?: boolean;
+}
+
+export interface CalendarEvent {
+  id?: string;
+  title: string;
+  /** ISO date‑time, or `YYYY-MM-DD` for all‑day events. */
+  start: string;
+  /** Exclusive end, same format as `start`. */
+  end?: string;
+  allDay: boolean;
+  location?: string;
+  description?: string;
+  attendees: Attendee[];
+  /** RFC 5545 lines, e.g. `RRULE:FREQ=WEEKLY;BYDAY=MO` (lib/recurrence). */
+  recurrence?: string[];
+  /**
+   * Zone the event was defined in (IANA name, or an iCalendar TZID such as
+   * Outlook's "W. Europe Standard Time"); `recurrence` repeats in it.
+   */
+  timeZone?: string;
+  /** VTIMEZONE text for a `timeZone` the browser does not know (lib/ics). */
+  timeZoneDefinition?: string;
+  /** Link to the event in the calendar UI. */
+  link?: string;
+  calendarId?: string;
+}
+
+// ‑‑‑ Schema ---------------------------------------------------------------
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const WhenSchema = z.union([
+  z.string(),
+  // Google: { dateTime, timeZone } or { date } for all‑day events
+  z
+    .object({
+      dateTime: z.string().optional(),
+      date_time: z.string().optional(),
+      date: z.string().optional(),
+    })
+    .transform((w) => w.dateTime ?? w.date_time ?? w.date ?? ""),
+]).refine((s) => DATE_ONLY.test(s) || !Number.isNaN(Date.parse(s)), {
+  message: "Expected an ISO date or date-time.",
+});
+
+const STATUS_ALIASES: Record<string, ResponseStatus> = {
+  accepted: "accepted",
+  declined: "declined",
+  tentative: "tentative",
+  needsaction: "needsAction",
+  needs_action: "needsAction",
+};
+
+const AttendeeSchema = z.union([
+  z.string().min(1).transform((email): Attendee => ({ email })),
+  z
+    .object({
+      email: z.string().optional(),
+      name: z.string().optional(),
+      displayName: z.string().optional(),
+      display_name: z.string().optional(),
+      status: z.string().optional(),
+      responseStatus: z.string().optional(),
+      response_status: z.string().optional(),
+      organizer: z.boolean().optional(),
+      self: z.boolean().optional(),
+    })
+    .transform((a): Attendee => {
+      const status = a.status ?? a.responseStatus ?? a.response_status;
+      return {
+        email: a.email,
+        name: a.name ?? a.displayName ?? a.display_name,
+        status: status ? STATUS_ALIASES[status.toLowerCase()] : undefined,
+        organizer: a.organizer,
+        self: a.self,
+      };
+    }),
+]);
+
+export const CalendarEventSchema = z
+  .object({
+    id: z.string().optional(),
+    title: z.string().optional(),
+    summary: z.string().optional(),
+    start: WhenSchema,
+    end: WhenSchema.optional(),
+    all_day: z.boolean().optional(),
+    location: z.string().optional(),
+    description: z.string().optional(),
+    attendees: z.array(AttendeeSchema).optional(),
+    recurrence: z.array(z.string()).optional(),
+    time_zone: z.string().optional(),
+    link: z.string().url().optional(),
+    htmlLink: z.string().url().optional(),
+    calendar_id: z.string().optional(),
+    calendarId: z.string().optional(),
+  })
+  .transform(
+    (e): CalendarEvent => ({
+      id: e.id,
+      title: e.title ?? e.summary ?? "(No title)",
+      start: e.start,
+      end: e.end,
+      allDay: e.all_day ?? DATE_ONLY.test(e.start),
+      location: e.location || undefined,
+      description: e.description || undefined,
+      attendees: e.attendees ?? [],
+      recurrence: e.recurrence?.length ? e.recurrence : undefined,
+      timeZone: e.time_zone || undefined,
+      link: e.link ?? e.htmlLink,
+      calendarId: e.calendar_id ?? e.calendarId,
+    })
+  );
+
+/** What the backend sends and receives for one event. */
+export type CalendarEventWire = z.input<typeof CalendarEventSchema>;
+
+/** Back to the flat wire shape, e.g. for an event action. */
+export function toWireEvent(event: CalendarEvent): CalendarEventWire {
+  return {
+    id: event.id,
+    title: event.title,
+    start: event.start,
+    end: event.end,
+    all_day: event.allDay,
+    location: event.location,
+    description: event.description,
+    // responses go back too, or an update would reset them
+    attendees: event.attendees.map((a) => ({
+      email: a.email,
+      name: a.name,
+      status: a.status,
+      organizer: a.organizer,
+      self: a.self,
+    })),
+    recurrence: event.recurrence,
+    // Outlook names ("W. Europe Standard Time") mean nothing to the backend;
+    // start and end carry their UTC offset either way
+    time_zone: event.timeZone && isValidTimeZone(event.timeZone) ? event.timeZone : undefined,
+    calendar_id: event.calendarId,
+  };
+}
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+/** Parses `start`/`end`; date‑only values are local midnight, not UTC. */
+export function parseWhen(value: string): Date {
+  if (DATE_ONLY.test(value)) {
+    const [y, m, d] = value.split("-").map(Number);
+    return new Date(y, m - 1, d);
+  }
+  return new Date(value);
+}
+
+/**
+ * Start of the event. With `timeZone`, timed events come back as a zoned
+ * Date (lib/timezone) for display; all‑day dates are the same everywhere.
+ */
+export function eventStart(event: CalendarEvent, timeZone?: string): Date {
+  const start = parseWhen(event.start);
+  return timeZone && !event.allDay ? toZonedDate(start, timeZone) : start;
+}
+
+/** End of the event; events without one last an hour (all‑day: a day). */
+export function eventEnd(event: CalendarEvent, timeZone?: string): Date {
+  const end = event.end
+    ? parseWhen(event.end)
+    : new Date(parseWhen(event.start).getTime() + (event.allDay ? 24 : 1) * 3_600_000);
+  return timeZone && !event.allDay ? toZonedDate(end, timeZone) : end;
+}
+
+/** "Mon 3 Mar · 09:00 – 10:30", "Mon 3 Mar · All day" – in `timeZone` if given. */
+export function formatEventTime(event: CalendarEvent, timeZone?: string): string {
+  const start = eventStart(event, timeZone);
+  const end = eventEnd(event, timeZone);
+  const day = format(start, "EEE d MMM");
+  if (event.allDay) {
+    const last = new Date(end.getTime() - 1);
+    return isSameDay(start, last)
+      ? `${day} · All day`
+      : `${day} – ${format(last, "EEE d MMM")} · All day`;
+  }
+  const range = isSameDay(start, end)
+    ? `${format(start, "HH:mm")} – ${format(end, "HH:mm")}`
+    : `${format(start, "HH:mm")} – ${format(end, "EEE d MMM HH:mm")}`;
+  return `${day} · ${range}`;
+}
+
+export function attendeeLabel(attendee: Attendee): string {
+  return attendee.name || attendee.email || "Unknown attendee";
+}
+
+/** Two letters for an avatar: "Ada Lovelace" → "AL", "ada@x.io" → "AD". */
+export function initials(attendee: Attendee): string {
+  const label = attendee.name || attendee.email?.split("@")[0] || "?";
+  const words = label.split(/[\s._-]+/).filter(Boolean);
+  const letters =
+    words.length > 1 ? words[0][0] + words[words.length - 1][0] : label.slice(0, 2);
+  return letters.toUpperCase();
+}
+
+/** Plain‑text listing, used as history context when an answer had no text. */
+export function summarizeEvents(events: CalendarEvent[], timeZone?: string): string {
+  return events
+    .map((e) => [e.title, formatEventTime(e, timeZone), e.location].filter(Boolean).join(" · "))
+    .map((line) => `- ${line}`)
+    .join("\n");
+}
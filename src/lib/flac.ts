@@ -0,0 +1,237 @@
+// ---------------------------------------------------------------------------
+// FLAC encoder – 16‑bit mono PCM → native FLAC stream
+// ---------------------------------------------------------------------------
+// Deliberately small: fixed‑size blocks, FIXED predictors (order 0–4, the one
+// with the smallest residual wins) and a single Rice partition per block.
+// Speech at 16 kHz typically shrinks to ~60 % of the WAV size. STREAMINFO
+// leaves the MD5 signature zeroed, which the format allows ("unknown").
+// ---------------------------------------------------------------------------
+
+const BLOCK_SIZE = 4096;
+const BITS_PER_SAMPLE = 16;
+const MAX_RICE_PARAM = 14; // 15 is the escape code
+const MAX_FIXED_ORDER = 4;
+
+// frame header sample‑rate codes for the rates we can name directly
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+};
+
+// ‑‑‑ Bit writer -----------------------------------------------------------
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  /** Appends the low `bits` (≤ 24) bits of `value`, MSB first. */
+  write(value: number, bits: number): void {
+    if (bits > 24) {
+      this.write(Math.floor(value / 2 ** 24), bits - 24);
+      this.write(value % 2 ** 24, 24);
+      return;
+    }
+    this.acc = (this.acc << bits) | (value & ((1 << bits) - 1));
+    this.accBits += bits;
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.pushByte((this.acc >>> this.accBits) & 0xff);
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  writeSigned(value: number, bits: number): void {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  /** `q` zero bits followed by a one. */
+  writeUnary(q: number): void {
+    while (q >= 24) {
+      this.write(0, 24);
+      q -= 24;
+    }
+    this.write(1, q + 1);
+  }
+
+  alignToByte(): void {
+    if (this.accBits) this.write(0, 8 - this.accBits);
+  }
+
+  get byteLength(): number {
+    return this.length;
+  }
+
+  slice(start: number, end = this.length): Uint8Array {
+    return this.bytes.subarray(start, end);
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    this.alignToByte();
+    return this.bytes.slice(0, this.length);
+  }
+
+  private pushByte(b: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = b;
+  }
+}
+
+// ‑‑‑ Checksums ------------------------------------------------------------
+function crc8(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+function crc16(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+}
+
+// ‑‑‑ Subframes ------------------------------------------------------------
+/** Residual of the order‑`order` FIXED predictor, from sample `order` on. */
+function fixedResidual(x: Int16Array, order: number): Int32Array {
+  const n = x.length;
+  const r = new Int32Array(Math.max(0, n - order));
+  for (let i = order; i < n; i++) {
+    let p = 0;
+    switch (order) {
+      case 1: p = x[i - 1]; break;
+      case 2: p = 2 * x[i - 1] - x[i - 2]; break;
+      case 3: p = 3 * x[i - 1] - 3 * x[i - 2] + x[i - 3]; break;
+      case 4: p = 4 * x[i - 1] - 6 * x[i - 2] + 4 * x[i - 3] - x[i - 4]; break;
+    }
+    r[i - order] = x[i] - p;
+  }
+  return r;
+}
+
+const zigzag = (v: number) => (v >= 0 ? v * 2 : -v * 2 - 1);
+
+/** Rice parameter and its cost, from the estimate n·(k+1) + Σu / 2^k. */
+function bestRiceParam(residual: Int32Array): { k: number; bits: number } {
+  let sum = 0;
+  for (const r of residual) sum += zigzag(r);
+  let best = { k: 0, bits: Infinity };
+  for (let k = 0; k <= MAX_RICE_PARAM; k++) {
+    const bits = residual.length * (k + 1) + sum / 2 ** k;
+    if (bits < best.bits) best = { k, bits };
+  }
+  return best;
+}
+
+function writeSubframe(out: BitWriter, block: Int16Array): void {
+  if (block.every((s) => s === block[0])) {
+    out.write(0b0_000000_0, 8); // CONSTANT
+    out.writeSigned(block[0], BITS_PER_SAMPLE);
+    return;
+  }
+
+  let best = { order: 0, residual: fixedResidual(block, 0), k: 0, bits: Infinity };
+  const maxOrder = Math.min(MAX_FIXED_ORDER, block.length - 1);
+  for (let order = 0; order <= maxOrder; order++) {
+    const residual = fixedResidual(block, order);
+    const { k, bits } = bestRiceParam(residual);
+    const total = bits + order * BITS_PER_SAMPLE;
+    if (total < best.bits) best = { order, residual, k, bits: total };
+  }
+
+  // verbatim when prediction does not pay off (e.g. white noise)
+  if (best.bits >= block.length * BITS_PER_SAMPLE) {
+    out.write(0b0_000001_0, 8);
+    for (const s of block) out.writeSigned(s, BITS_PER_SAMPLE);
+    return;
+  }
+
+  out.write((0b001000 | best.order) << 1, 8); // FIXED, no wasted bits
+  for (let i = 0; i < best.order; i++) out.writeSigned(block[i], BITS_PER_SAMPLE);
+  out.write(0b00, 2); // 4‑bit Rice parameters
+  out.write(0, 4); // partition order 0
+  out.write(best.k, 4);
+  for (const r of best.residual) {
+    const u = zigzag(r);
+    out.writeUnary(Math.floor(u / 2 ** best.k));
+    if (best.k) out.write(u % 2 ** best.k, best.k);
+  }
+}
+
+// ‑‑‑ Frames ---------------------------------------------------------------
+/** Frame number in FLAC's UTF‑8‑style variable length code. */
+function writeUtf8Number(out: BitWriter, n: number): void {
+  if (n < 0x80) return out.write(n, 8);
+  const bytes: number[] = [];
+  let limit = 0x3f; // payload of the first byte shrinks as bytes are added
+  while (n > limit) {
+    bytes.unshift(0x80 | (n & 0x3f));
+    n = Math.floor(n / 64);
+    limit >>= 1;
+  }
+  const lead = (0xff << (7 - bytes.length)) & 0xff;
+  out.write(lead | n, 8);
+  for (const b of bytes) out.write(b, 8);
+}
+
+function writeFrame(out: BitWriter, block: Int16Array, index: number, rateCode: number): void {
+  const start = out.byteLength;
+  out.write(0b11111111111110, 14); // sync
+  out.write(0, 1); // reserved
+  out.write(0, 1); // fixed block size
+  out.write(0b0111, 4); // block size in 16 bits after the header
+  out.write(rateCode, 4);
+  out.write(0b0000, 4); // mono
+  out.write(0b100, 3); // 16 bits per sample
+  out.write(0, 1); // reserved
+  writeUtf8Number(out, index);
+  out.write(block.length - 1, 16);
+  out.write(crc8(out.slice(start)), 8);
+
+  writeSubframe(out, block);
+  out.alignToByte();
+  out.write(crc16(out.slice(start)), 16);
+}
+
+// ‑‑‑ Stream ---------------------------------------------------------------
+/** Encodes 16‑bit mono samples as a FLAC file. */
+export function encodeFlac(samples: Int16Array, sampleRate: number): Uint8Array<ArrayBuffer> {
+  const out = new BitWriter();
+  out.write(0x664c6143, 32); // "fLaC"
+
+  // STREAMINFO, the only (and therefore last) metadata block
+  out.write(1, 1);
+  out.write(0, 7);
+  out.write(34, 24);
+  const blockSize = Math.max(16, Math.min(BLOCK_SIZE, samples.length));
+  out.write(blockSize, 16); // min block size
+  out.write(blockSize, 16); // max block size
+  out.write(0, 24); // min frame size: unknown
+  out.write(0, 24); // max frame size: unknown
+  out.write(sampleRate, 20);
+  out.write(0, 3); // channels − 1
+  out.write(BITS_PER_SAMPLE - 1, 5);
+  out.write(samples.length, 36);
+  for (let i = 0; i < 4; i++) out.write(0, 32); // MD5: unknown
+
+  // rates without a short code fall back to "see STREAMINFO"
+  const rateCode = SAMPLE_RATE_CODES[sampleRate] ?? 0b0000;
+  for (let i = 0, frame = 0; i < samples.length; i += BLOCK_SIZE, frame++) {
+    writeFrame(out, samples.subarray(i, i + BLOCK_SIZE), frame, rateCode);
+  }
+  return out.finish();
+}
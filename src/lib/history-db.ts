@@ -0,0 +1,161 @@
+// ---------------------------------------------------------------------------
+// Local conversation history – IndexedDB persistence for threads and turns
+// ---------------------------------------------------------------------------
+// Two object stores:
+//   • threads  – one record per conversation (title, pinned, timestamps)
+//   • messages – every turn, keyed by id and indexed by threadId
+// Recorded requests and TTS answers are stored as Blobs next to the text.
+// ---------------------------------------------------------------------------
+
+import type { ChatMessage } from "@/lib/conversation";
+
+export interface Thread {
+  id: string;
+  title: string;
+  /** Agent the conversation belongs to (lib/agents); missing in older threads. */
+  agentId?: string;
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface StoredMessage extends ChatMessage {
+  threadId: string;
+}
+
+const DB_NAME = "agent-app";
+const DB_VERSION = 1;
+const THREADS = "threads";
+const MESSAGES = "messages";
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (!("indexedDB" in window)) {
+      reject(new Error("IndexedDB not supported in this browser."));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(THREADS)) {
+        db.createObjectStore(THREADS, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(MESSAGES)) {
+        const store = db.createObjectStore(MESSAGES, { keyPath: "id" });
+        store.createIndex("threadId", "threadId");
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// ‑‑‑ Threads --------------------------------------------------------------
+/** Pinned threads first, then most recently updated. */
+export async function listThreads(): Promise<Thread[]> {
+  const db = await openDb();
+  const threads = await promisify<Thread[]>(
+    db.transaction(THREADS).objectStore(THREADS).getAll()
+  );
+  return threads.sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt
+  );
+}
+
+export async function getThread(id: string): Promise<Thread | undefined> {
+  const db = await openDb();
+  return promisify<Thread | undefined>(
+    db.transaction(THREADS).objectStore(THREADS).get(id)
+  );
+}
+
+export async function putThread(thread: Thread): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(THREADS, "readwrite");
+  tx.objectStore(THREADS).put(thread);
+  await done(tx);
+}
+
+export async function updateThread(
+  id: string,
+  patch: Partial<Omit<Thread, "id">>
+): Promise<Thread | undefined> {
+  const thread = await getThread(id);
+  if (!thread) return undefined;
+  const next = { ...thread, ...patch };
+  await putThread(next);
+  return next;
+}
+
+/** Removes the thread together with all of its turns. */
+export async function deleteThread(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([THREADS, MESSAGES], "readwrite");
+  tx.objectStore(THREADS).delete(id);
+  const index = tx.objectStore(MESSAGES).index("threadId");
+  const keys = await promisify(index.getAllKeys(IDBKeyRange.only(id)));
+  keys.forEach((key) => tx.objectStore(MESSAGES).delete(key));
+  await done(tx);
+}
+
+// ‑‑‑ Messages -------------------------------------------------------------
+export async function listMessages(threadId: string): Promise<ChatMessage[]> {
+  const db = await openDb();
+  const index = db.transaction(MESSAGES).objectStore(MESSAGES).index("threadId");
+  const rows = await promisify<StoredMessage[]>(
+    index.getAll(IDBKeyRange.only(threadId))
+  );
+  return rows
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(({ threadId: _threadId, ...message }) => message);
+}
+
+export async function updateMessage(
+  id: string,
+  patch: Partial<Omit<ChatMessage, "id">>
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(MESSAGES, "readwrite");
+  const store = tx.objectStore(MESSAGES);
+  const row = await promisify<StoredMessage | undefined>(store.get(id));
+  if (row) store.put({ ...row, ...patch });
+  await done(tx);
+}
+
+/** Stores a turn and bumps the thread's `updatedAt` in the same transaction. */
+export async function addMessage(
+  threadId: string,
+  message: ChatMessage
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([THREADS, MESSAGES], "readwrite");
+  const row: StoredMessage = { ...message, threadId };
+  tx.objectStore(MESSAGES).put(row);
+  const threads = tx.objectStore(THREADS);
+  const thread = await promisify<Thread | undefined>(threads.get(threadId));
+  if (thread) threads.put({ ...thread, updatedAt: message.createdAt });
+  await done(tx);
+}
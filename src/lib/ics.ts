@@ -0,0 +1,707 @@
+// ---------------------------------------------------------------------------
+// iCalendar (RFC 5545) – export events as .ics, import VEVENTs from files
+// ---------------------------------------------------------------------------
+// Export writes timed events in the user's zone (`DTSTART;TZID=…`) with a
+// generated VTIMEZONE; recurring events go out in the zone their rule was
+// written for (`timeZone`), so BYDAY keeps its weekdays and occurrences keep
+// their local time across DST in Outlook and Apple Calendar. All‑day events
+// are DATE values. Lines are folded at 75 octets and text is escaped.
+//
+// Import unfolds, unescapes and resolves TZID through the file's own
+// VTIMEZONE definitions (what Outlook sends, often under Windows zone names),
+// then through the browser's IANA database, and treats anything else as
+// floating local time. The start's TZID is kept on the event, with the
+// file's VTIMEZONE when the browser does not know the zone. RRULE lines are
+// kept as is; EXDATE/RDATE are rewritten to UTC, which matches the same
+// occurrences in any zone.
+// ---------------------------------------------------------------------------
+
+import { addDays, format, formatISO } from "date-fns";
+
+import { eventEnd, eventStart } from "@/lib/events";
+import type { Attendee, CalendarEvent, ResponseStatus } from "@/lib/events";
+import {
+  formatOffset,
+  fromWallTime,
+  isValidTimeZone,
+  localTimeZone,
+  toWallTime,
+  zoneOffset,
+  zoneTransitions,
+} from "@/lib/timezone";
+import { WEEKDAYS } from "@/lib/recurrence";
+
+export const ICS_MIME = "text/calendar";
+const PRODID = "-//AI Voice Assistant//Calendar Export//EN";
+const FOLD_OCTETS = 75;
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 3_600_000;
+
+export class IcsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IcsError";
+  }
+}
+
+// ‑‑‑ Text -----------------------------------------------------------------
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+/** Parameter values with `:;,` must be quoted; quotes themselves cannot appear. */
+function paramValue(value: string): string {
+  const clean = value.replace(/"/g, "'");
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+/** Splits a content line into 75‑octet lines, never inside a character. */
+function fold(line: string): string {
+  const out: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // continuation lines start with a space, which counts towards the limit
+    if (octets + size > FOLD_OCTETS) {
+      out.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  out.push(current);
+  return out.join("\r\n");
+}
+
+// ‑‑‑ Date values ----------------------------------------------------------
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+/** `20250304T090000` from a wall time (see lib/timezone). */
+function formatWall(wall: number): string {
+  const d = new Date(wall);
+  return (
+    `${pad(d.getUTCFullYear(), 4)}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}` +
+    `T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}`
+  );
+}
+
+const formatUtc = (instant: number) => `${formatWall(instant)}Z`;
+
+interface DateValue {
+  /** Wall time, or the instant itself when `utc`. */
+  wall: number;
+  dateOnly: boolean;
+  utc: boolean;
+}
+
+function parseDateValue(value: string): DateValue | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s, z] = m;
+  return {
+    wall: Date.UTC(+y, +mo - 1, +d, +(h ?? 0), +(mi ?? 0), +(s ?? 0)),
+    dateOnly: h === undefined,
+    utc: !!z,
+  };
+}
+
+/** `-P1W`, `PT1H30M`, `P1DT12H` → milliseconds. */
+function parseDuration(value: string): number | null {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    value.trim()
+  );
+  if (!m) return null;
+  const [, sign, w, d, h, mi, s] = m;
+  const ms =
+    ((+(w ?? 0) * 7 + +(d ?? 0)) * 24 * 3600 + +(h ?? 0) * 3600 + +(mi ?? 0) * 60 + +(s ?? 0)) *
+    1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/** `+0100`, `-0530`, `+013045` → minutes. */
+function parseOffset(value: string): number {
+  const m = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim());
+  if (!m) return 0;
+  const minutes = +m[2] * 60 + +m[3];
+  return m[1] === "-" ? -minutes : minutes;
+}
+
+// ‑‑‑ Content lines --------------------------------------------------------
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  name: string;
+  props: Property[];
+  children: Component[];
+}
+
+/** `NAME;PARAM=a;PARAM2="x:y":value` – quoted parameter values may hold `:;,`. */
+function parseLine(line: string): Property | null {
+  let i = 0;
+  const readUntil = (stops: string) => {
+    const start = i;
+    while (i < line.length && !stops.includes(line[i])) i++;
+    return line.slice(start, i);
+  };
+
+  const name = readUntil(";:").toUpperCase();
+  const params: Record<string, string> = {};
+  while (line[i] === ";") {
+    i++;
+    const key = readUntil("=;:").toUpperCase();
+    let value = "";
+    if (line[i] === "=") {
+      i++;
+      // a value list may mix quoted and bare parts: a,"b,c"
+      while (i < line.length && line[i] !== ";" && line[i] !== ":") {
+        if (line[i] === '"') {
+          i++;
+          value += readUntil('"');
+          i++;
+        } else {
+          value += readUntil('";:');
+        }
+      }
+    }
+    params[key] = value;
+  }
+  if (line[i] !== ":" || !name) return null;
+  return { name, params, value: line.slice(i + 1) };
+}
+
+function parseComponents(text: string): Component[] {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    // unfold: CRLF (or bare LF) followed by a space or tab continues the line
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/);
+
+  const root: Component = { name: "ROOT", props: [], children: [] };
+  const stack = [root];
+  for (const raw of lines) {
+    if (!raw.trim()) continue;
+    const prop = parseLine(raw);
+    if (!prop) continue;
+    const top = stack[stack.length - 1];
+    if (prop.name === "BEGIN") {
+      const child: Component = { name: prop.value.trim().toUpperCase(), props: [], children: [] };
+      top.children.push(child);
+      stack.push(child);
+    } else if (prop.name === "END") {
+      // tolerate mismatched END lines instead of losing the rest of the file
+      const at = stack.map((c) => c.name).lastIndexOf(prop.value.trim().toUpperCase());
+      if (at > 0) stack.length = at;
+    } else {
+      top.props.push(prop);
+    }
+  }
+  return root.children;
+}
+
+/** The component as iCalendar text again (unfolded; export folds it). */
+function componentText(c: Component): string {
+  const lines = [`BEGIN:${c.name}`];
+  for (const p of c.props) {
+    const params = Object.entries(p.params).map(([k, v]) => `;${k}=${paramValue(v)}`);
+    lines.push(`${p.name}${params.join("")}:${p.value}`);
+  }
+  lines.push(...c.children.map(componentText));
+  lines.push(`END:${c.name}`);
+  return lines.join("\n");
+}
+
+const prop = (c: Component, name: string) => c.props.find((p) => p.name === name);
+const props = (c: Component, name: string) => c.props.filter((p) => p.name === name);
+
+// ‑‑‑ VTIMEZONE ------------------------------------------------------------
+interface Observance {
+  /** Onset as a wall time in the offset before it. */
+  start: number;
+  offsetFrom: number;
+  offsetTo: number;
+  rrule?: Record<string, string>;
+  rdates: number[];
+}
+
+type ZoneResolver = (wall: number) => number;
+
+function rruleParts(value: string): Record<string, string> {
+  return Object.fromEntries(
+    value.split(";").map((part) => {
+      const [k, v = ""] = part.split("=");
+      return [k.toUpperCase(), v.toUpperCase()];
+    })
+  );
+}
+
+/** Day of month of e.g. `-1SU` (last Sunday) in a month; null if none. */
+function nthWeekday(
+  year: number,
+  month: number,
+  byDay: string,
+  byMonthDay?: string
+): number | null {
+  const m = /^([+-]?\d+)?(MO|TU|WE|TH|FR|SA|SU)$/.exec(byDay);
+  if (!m) return null;
+  // JS getUTCDay: 0 = Sunday; WEEKDAYS starts on Monday
+  const weekday = (WEEKDAYS.indexOf(m[2] as (typeof WEEKDAYS)[number]) + 1) % 7;
+  const days = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const matching: number[] = [];
+  for (let d = 1; d <= days; d++) {
+    if (new Date(Date.UTC(year, month, d)).getUTCDay() === weekday) matching.push(d);
+  }
+  if (byMonthDay) {
+    // old style: BYDAY=SU;BYMONTHDAY=8,9,…,14 for "second Sunday"
+    const allowed = byMonthDay.split(",").map(Number);
+    return matching.find((d) => allowed.includes(d)) ?? null;
+  }
+  const n = m[1] ? parseInt(m[1], 10) : 1;
+  return (n > 0 ? matching[n - 1] : matching[matching.length + n]) ?? null;
+}
+
+/** Latest onset of `obs` at or before `wall`, or null. */
+function lastOnset(obs: Observance, wall: number): number | null {
+  const onsets = [obs.start, ...obs.rdates];
+  const rule = obs.rrule;
+  if (rule?.FREQ === "YEARLY" && rule.BYMONTH) {
+    const start = new Date(obs.start);
+    const timeOfDay =
+      obs.start - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+    const until = rule.UNTIL ? parseDateValue(rule.UNTIL) : null;
+    const count = rule.COUNT ? parseInt(rule.COUNT, 10) : Infinity;
+    const year = new Date(wall).getUTCFullYear();
+    for (let y = Math.max(start.getUTCFullYear(), year - 1); y <= year; y++) {
+      if (y - start.getUTCFullYear() >= count) break;
+      const month = parseInt(rule.BYMONTH, 10) - 1;
+      const day = rule.BYDAY
+        ? nthWeekday(y, month, rule.BYDAY, rule.BYMONTHDAY)
+        : rule.BYMONTHDAY
+          ? parseInt(rule.BYMONTHDAY, 10)
+          : start.getUTCDate();
+      if (!day) continue;
+      const onset = Date.UTC(y, month, day) + timeOfDay;
+      // UNTIL is UTC; compare it as the UTC instant of the onset
+      if (until && onset - obs.offsetFrom * MINUTE_MS > until.wall) break;
+      onsets.push(onset);
+    }
+  }
+  const past = onsets.filter((t) => t <= wall);
+  return past.length ? Math.max(...past) : null;
+}
+
+function parseVTimezone(c: Component): ZoneResolver | null {
+  const observances: Observance[] = c.children
+    .filter((o) => o.name === "STANDARD" || o.name === "DAYLIGHT")
+    .map((o) => ({
+      start: parseDateValue(prop(o, "DTSTART")?.value ?? "")?.wall ?? 0,
+      offsetFrom: parseOffset(prop(o, "TZOFFSETFROM")?.value ?? "+0000"),
+      offsetTo: parseOffset(prop(o, "TZOFFSETTO")?.value ?? "+0000"),
+      rrule: prop(o, "RRULE") ? rruleParts(prop(o, "RRULE")!.value) : undefined,
+      rdates: props(o, "RDATE")
+        .flatMap((p) => p.value.split(","))
+        .flatMap((v) => parseDateValue(v)?.wall ?? []),
+    }));
+  if (!observances.length) return null;
+
+  return (wall) => {
+    let best: { onset: number; obs: Observance } | null = null;
+    for (const obs of observances) {
+      const onset = lastOnset(obs, wall);
+      if (onset !== null && (!best || onset > best.onset)) best = { onset, obs };
+    }
+    // before every onset: the zone was on the earliest observance's "from"
+    const offset = best
+      ? best.obs.offsetTo
+      : observances.reduce((a, b) => (a.start <= b.start ? a : b)).offsetFrom;
+    return wall - offset * MINUTE_MS;
+  };
+}
+
+/** The wall time `resolve` maps to `instant` (its inverse, off DST gaps). */
+function wallFor(resolve: ZoneResolver, instant: number): number {
+  let wall = instant;
+  for (let i = 0; i < 3; i++) {
+    const next = wall + (instant - resolve(wall));
+    if (next === wall) break;
+    wall = next;
+  }
+  return wall;
+}
+
+/** Maps TZIDs to resolvers: the file's VTIMEZONEs first, then Intl. */
+function zoneResolver(definitions: Map<string, ZoneResolver>) {
+  return (tzid: string | undefined, value: DateValue): number => {
+    if (value.utc) return value.wall;
+    if (tzid) {
+      const own = definitions.get(tzid);
+      if (own) return own(value.wall);
+      // "/Europe/Berlin" is the "globally unique" prefix form
+      const instant = fromWallTime(value.wall, tzid.replace(/^\//, ""));
+      if (instant !== null) return instant;
+    }
+    // floating time: the same clock time wherever the user is
+    const d = new Date(value.wall);
+    return new Date(
+      d.getUTCFullYear(),
+      d.getUTCMonth(),
+      d.getUTCDate(),
+      d.getUTCHours(),
+      d.getUTCMinutes(),
+      d.getUTCSeconds()
+    ).getTime();
+  };
+}
+
+// ‑‑‑ Import ---------------------------------------------------------------
+const PARTSTAT: Record<string, ResponseStatus> = {
+  ACCEPTED: "accepted",
+  DECLINED: "declined",
+  TENTATIVE: "tentative",
+  "NEEDS-ACTION": "needsAction",
+};
+
+function parseAttendee(p: Property, organizer: boolean): Attendee {
+  const email = p.value.replace(/^mailto:/i, "").trim() || undefined;
+  return {
+    email,
+    name: p.params.CN ? unescapeText(p.params.CN) : undefined,
+    status: PARTSTAT[p.params.PARTSTAT?.toUpperCase() ?? ""],
+    organizer: organizer || undefined,
+  };
+}
+
+const dateOnly = (wall: number) => {
+  const d = new Date(wall);
+  return `${pad(d.getUTCFullYear(), 4)}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+};
+
+function toEvent(
+  c: Component,
+  resolve: ReturnType<typeof zoneResolver>,
+  vtimezones: Map<string, string>
+): CalendarEvent | null {
+  const startProp = prop(c, "DTSTART");
+  const start = startProp && parseDateValue(startProp.value);
+  if (!startProp || !start) return null;
+  const allDay = start.dateOnly || startProp.params.VALUE === "DATE";
+
+  const endProp = prop(c, "DTEND") ?? prop(c, "DUE");
+  const endValue = endProp && parseDateValue(endProp.value);
+  const duration = parseDuration(prop(c, "DURATION")?.value ?? "");
+
+  let startText: string;
+  let endText: string | undefined;
+  // the zone the series repeats in, so export does not move its weekdays
+  let timeZone: string | undefined;
+  let timeZoneDefinition: string | undefined;
+  const tzid = startProp.params.TZID;
+  if (!allDay && tzid && !start.utc) {
+    const iana = tzid.replace(/^\//, "");
+    if (isValidTimeZone(iana)) timeZone = iana;
+    else if (vtimezones.has(tzid)) {
+      timeZone = tzid;
+      timeZoneDefinition = vtimezones.get(tzid);
+    }
+  }
+  if (allDay) {
+    startText = dateOnly(start.wall);
+    // DTEND of a DATE event is exclusive already; no end means one day
+    const end = endValue?.wall ?? start.wall + (duration ?? DAY_MS);
+    endText = dateOnly(Math.max(end, start.wall + DAY_MS));
+  } else {
+    const from = resolve(startProp.params.TZID, start);
+    const to = endValue
+      ? resolve(endProp!.params.TZID, endValue)
+      : duration !== null
+        ? from + duration
+        : undefined;
+    startText = formatISO(from);
+    endText = to !== undefined ? formatISO(Math.max(to, from)) : undefined;
+  }
+
+  // EXDATE/RDATE in UTC (or DATE), so they survive without their TZID
+  const normalizeDates = (p: Property) => {
+    const values = p.value.split(",").flatMap((v) => {
+      const parsed = parseDateValue(v);
+      if (!parsed) return [];
+      if (parsed.dateOnly) return [v.trim()];
+      return [formatUtc(resolve(p.params.TZID, parsed))];
+    });
+    if (!values.length) return [];
+    const dateValued = values.every((v) => !v.includes("T"));
+    return [`${p.name}${dateValued ? ";VALUE=DATE" : ""}:${values.join(",")}`];
+  };
+  const recurrence = [
+    ...props(c, "RRULE").map((p) => `RRULE:${p.value}`),
+    ...props(c, "EXRULE").map((p) => `EXRULE:${p.value}`),
+    ...props(c, "EXDATE").flatMap(normalizeDates),
+    ...props(c, "RDATE").flatMap(normalizeDates),
+  ];
+
+  const organizer = prop(c, "ORGANIZER");
+  const attendees = props(c, "ATTENDEE").map((p) => parseAttendee(p, false));
+  if (organizer) {
+    const org = parseAttendee(organizer, true);
+    const same = attendees.find((a) => a.email?.toLowerCase() === org.email?.toLowerCase());
+    if (same) same.organizer = true;
+    else attendees.unshift(org);
+  }
+
+  const uid = prop(c, "UID")?.value;
+  const recurrenceId = prop(c, "RECURRENCE-ID")?.value;
+  const text = (name: string) => {
+    const value = prop(c, name)?.value;
+    return value ? unescapeText(value) : undefined;
+  };
+
+  return {
+    // a moved occurrence shares its series' UID
+    id: uid ? (recurrenceId ? `${uid}_${recurrenceId}` : uid) : undefined,
+    title: text("SUMMARY") || "(No title)",
+    start: startText,
+    end: endText,
+    allDay,
+    location: text("LOCATION"),
+    description: text("DESCRIPTION"),
+    attendees,
+    recurrence: recurrence.length ? recurrence : undefined,
+    timeZone,
+    timeZoneDefinition,
+    link: prop(c, "URL")?.value,
+  };
+}
+
+/** Events of an iCalendar file; cancelled events are left out. */
+export function parseIcs(text: string): CalendarEvent[] {
+  const calendars = parseComponents(text).filter((c) => c.name === "VCALENDAR");
+  if (!calendars.length) throw new IcsError("Not an iCalendar file.");
+
+  const events: CalendarEvent[] = [];
+  for (const cal of calendars) {
+    const definitions = new Map<string, ZoneResolver>();
+    const vtimezones = new Map<string, string>();
+    for (const tz of cal.children.filter((c) => c.name === "VTIMEZONE")) {
+      const id = prop(tz, "TZID")?.value;
+      const resolver = parseVTimezone(tz);
+      if (!id || !resolver) continue;
+      definitions.set(id, resolver);
+      vtimezones.set(id, componentText(tz));
+    }
+    const resolve = zoneResolver(definitions);
+    for (const c of cal.children) {
+      if (c.name !== "VEVENT") continue;
+      if (prop(c, "STATUS")?.value.toUpperCase() === "CANCELLED") continue;
+      const event = toEvent(c, resolve, vtimezones);
+      if (event) events.push(event);
+    }
+  }
+  return events;
+}
+
+export async function readIcsFile(file: Blob): Promise<CalendarEvent[]> {
+  return parseIcs(await file.text());
+}
+
+// ‑‑‑ Export ---------------------------------------------------------------
+/**
+ * VTIMEZONE for `zone` covering the years of the events: one observance per
+ * offset change, each with the yearly rule it follows ("last Sunday of March").
+ */
+function vtimezone(zone: string, fromYear: number, toYear: number): string[] {
+  const from = Date.UTC(fromYear, 0, 1);
+  const to = Date.UTC(toYear + 1, 0, 1);
+  const transitions = zoneTransitions(zone, from, to);
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${zone}`];
+
+  if (!transitions.length) {
+    const offset = formatOffset(zoneOffset(zone, from) ?? 0, true);
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD"
+    );
+  }
+
+  // one observance per kind of change; later years repeat the first one's rule
+  const seen = new Set<string>();
+  for (const t of transitions) {
+    const offsetFrom = zoneOffset(zone, t - MINUTE_MS) ?? 0;
+    const offsetTo = zoneOffset(zone, t) ?? 0;
+    const key = `${offsetFrom}>${offsetTo}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    // onset in the wall time before the change
+    const onset = new Date(t + offsetFrom * MINUTE_MS);
+    const day = onset.getUTCDate();
+    const daysInMonth = new Date(
+      Date.UTC(onset.getUTCFullYear(), onset.getUTCMonth() + 1, 0)
+    ).getUTCDate();
+    const nth = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const weekday = WEEKDAYS[(onset.getUTCDay() + 6) % 7];
+    const kind = offsetTo > offsetFrom ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatWall(onset.getTime())}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom, true)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo, true)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${onset.getUTCMonth() + 1};BYDAY=${nth}${weekday}`,
+      `END:${kind}`
+    );
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+const STATUS_PARTSTAT: Record<ResponseStatus, string> = {
+  accepted: "ACCEPTED",
+  declined: "DECLINED",
+  tentative: "TENTATIVE",
+  needsAction: "NEEDS-ACTION",
+};
+
+function attendeeLine(name: "ATTENDEE" | "ORGANIZER", a: Attendee): string | null {
+  if (!a.email) return null;
+  const params = [
+    a.name && `CN=${paramValue(a.name)}`,
+    name === "ATTENDEE" && a.status && `PARTSTAT=${STATUS_PARTSTAT[a.status]}`,
+  ].filter(Boolean);
+  return `${[name, ...params].join(";")}:mailto:${a.email}`;
+}
+
+/** A zone events are written in: its TZID, VTIMEZONE and wall times. */
+interface ExportZone {
+  tzid: string;
+  lines: string[];
+  toWall: (instant: number) => number | null;
+}
+
+function ianaZone(zone: string, events: CalendarEvent[]): ExportZone {
+  const years = events.map((e) => eventStart(e).getUTCFullYear());
+  return {
+    tzid: zone,
+    lines: vtimezone(zone, Math.min(...years), Math.max(...years)),
+    toWall: (instant) => toWallTime(instant, zone),
+  };
+}
+
+/** A zone only known from an imported VTIMEZONE, written back as it came. */
+function definedZone(tzid: string, definition: string): ExportZone | null {
+  const tz = parseComponents(definition).find((c) => c.name === "VTIMEZONE");
+  const resolve = tz && parseVTimezone(tz);
+  if (!resolve) return null;
+  return { tzid, lines: definition.split("\n"), toWall: (instant) => wallFor(resolve, instant) };
+}
+
+function eventLines(event: CalendarEvent, zone: ExportZone | null, stamp: string): string[] {
+  const start = eventStart(event);
+  const end = eventEnd(event);
+  const when = (name: string, date: Date) => {
+    if (event.allDay) return `${name};VALUE=DATE:${format(date, "yyyyMMdd")}`;
+    const wall = zone?.toWall(date.getTime()) ?? null;
+    return wall !== null && zone
+      ? `${name};TZID=${paramValue(zone.tzid)}:${formatWall(wall)}`
+      : `${name}:${formatUtc(date.getTime())}`;
+  };
+  const organizer = event.attendees.find((a) => a.organizer);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.id ? escapeText(event.id) : crypto.randomUUID()}`,
+    `DTSTAMP:${stamp}`,
+    when("DTSTART", start),
+    // all‑day ends are exclusive dates in both models
+    when("DTEND", event.allDay ? (event.end ? end : addDays(start, 1)) : end),
+    `SUMMARY:${escapeText(event.title)}`,
+    event.location && `LOCATION:${escapeText(event.location)}`,
+    event.description && `DESCRIPTION:${escapeText(event.description)}`,
+    ...(event.recurrence ?? []),
+    organizer && attendeeLine("ORGANIZER", organizer),
+    ...event.attendees.filter((a) => !a.organizer).map((a) => attendeeLine("ATTENDEE", a)),
+    event.link && `URL:${event.link}`,
+    "END:VEVENT",
+  ].filter((l): l is string => !!l);
+}
+
+/**
+ * A VCALENDAR holding `events`. Timed events are written in `timeZone`
+ * (default: the browser's), or in UTC if it is not a known zone; recurring
+ * events with a `timeZone` of their own are written in that zone.
+ */
+export function toIcs(
+  events: CalendarEvent[],
+  { timeZone = localTimeZone() }: { timeZone?: string } = {}
+): string {
+  const display = timeZone !== "UTC" && isValidTimeZone(timeZone) ? timeZone : null;
+  const stamp = formatUtc(Date.now());
+
+  const zoneIdOf = (e: CalendarEvent): string | null => {
+    if (e.allDay) return null;
+    const own = e.recurrence && e.timeZone;
+    return own && (isValidTimeZone(own) || e.timeZoneDefinition) ? own : display;
+  };
+  const byZone = new Map<string, CalendarEvent[]>();
+  for (const e of events) {
+    const id = zoneIdOf(e);
+    if (id) byZone.set(id, [...(byZone.get(id) ?? []), e]);
+  }
+  const zones = new Map<string, ExportZone>();
+  for (const [id, group] of byZone) {
+    // only events repeating in the zone itself carry its definition; a single
+    // imported event is filed under the display zone with its own
+    const definition = group.find(
+      (e) => e.recurrence && e.timeZone === id && e.timeZoneDefinition
+    )?.timeZoneDefinition;
+    const zone = definition ? definedZone(id, definition) : ianaZone(id, group);
+    if (zone) zones.set(id, zone);
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  for (const zone of zones.values()) lines.push(...zone.lines);
+  for (const event of events) {
+    const id = zoneIdOf(event);
+    // an unreadable imported zone falls back to the display zone, then UTC
+    const zone = (id && zones.get(id)) || (display ? zones.get(display) ?? null : null);
+    lines.push(...eventLines(event, zone, stamp));
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/** File name for an export: `meetings-2025-03-04.ics`. */
+export function icsFilename(events: CalendarEvent[]): string {
+  if (events.length === 1) {
+    const slug = events[0].title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    return `${slug || "event"}.ics`;
+  }
+  const starts = events.map((e) => eventStart(e));
+  const first = starts.length ? starts.reduce((a, b) => (a <= b ? a : b)) : new Date();
+  return `events-${format(first, "yyyy-MM-dd")}.ics`;
+}
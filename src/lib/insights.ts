@@ -0,0 +1,306 @@
+// ---------------------------------------------------------------------------
+// Meeting insights – free/busy and meeting load over a range of days
+// ---------------------------------------------------------------------------
+// Computed from the structured `events` the backend returns for the range,
+// in the display time zone (zoned Dates, see lib/timezone). Meetings are
+// timed events the user has not declined; all‑day events (holidays, time
+// off) carry no hours. Overlapping meetings count once towards a day's
+// hours, and focus time is the free stretches of working hours on weekdays.
+// ---------------------------------------------------------------------------
+
+import {
+  addDays,
+  addWeeks,
+  differenceInCalendarDays,
+  endOfWeek,
+  format,
+  isWeekend,
+  max as latest,
+  min as earliest,
+  setHours,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+
+import { attendeeLabel, eventEnd, eventStart } from "@/lib/events";
+import type { CalendarEvent } from "@/lib/events";
+
+export const RANGE_PRESETS = {
+  this_week: "This week",
+  next_week: "Next week",
+  last_4_weeks: "Last 4 weeks",
+  next_4_weeks: "Next 4 weeks",
+} as const;
+
+export type RangePreset = keyof typeof RANGE_PRESETS;
+
+/** Whole days, both inclusive. */
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+/** Hours of the day (0–24) counted as working time. */
+export interface WorkingHours {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = { start: 9, end: 17 };
+/** Free time shorter than this is not a focus block. */
+export const FOCUS_MIN_MINUTES = 90;
+/** Longest range a dashboard asks for. */
+export const MAX_RANGE_DAYS = 92;
+/** Attendees / calendars listed before the rest are dropped. */
+const TOP_TALLIES = 8;
+
+export interface DayLoad {
+  day: Date;
+  /** `yyyy-MM-dd`, the chart's category key. */
+  date: string;
+  label: string;
+  meetings: number;
+  meetingHours: number;
+  focusHours: number;
+}
+
+export interface WeekLoad {
+  weekStart: string;
+  label: string;
+  meetings: number;
+  meetingHours: number;
+  focusHours: number;
+}
+
+export interface FocusBlock {
+  start: Date;
+  end: Date;
+  minutes: number;
+}
+
+/** Meetings with one attendee or on one calendar. */
+export interface Tally {
+  key: string;
+  label: string;
+  meetings: number;
+  hours: number;
+}
+
+export interface Insights {
+  days: DayLoad[];
+  weeks: WeekLoad[];
+  attendees: Tally[];
+  calendars: Tally[];
+  focusBlocks: FocusBlock[];
+  totals: {
+    meetings: number;
+    meetingHours: number;
+    focusHours: number;
+    /** Meeting hours per weekday in the range. */
+    hoursPerWorkday: number;
+    busiestDay?: DayLoad;
+  };
+}
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+type Interval = [start: number, end: number];
+
+const HOUR_MS = 3_600_000;
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const hours = (ms: number) => round1(ms / HOUR_MS);
+
+const isMeeting = (e: CalendarEvent) =>
+  !e.allDay && !e.attendees.some((a) => a.self && a.status === "declined");
+
+/** Sorted, non‑overlapping cover of `intervals`. */
+function merge(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const out: Interval[] = [];
+  for (const [start, end] of sorted) {
+    const last = out[out.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else out.push([start, end]);
+  }
+  return out;
+}
+
+/** Stretches of [from, to) not covered by `busy` (merged). */
+function gaps(busy: Interval[], from: number, to: number): Interval[] {
+  const out: Interval[] = [];
+  let cursor = from;
+  for (const [start, end] of busy) {
+    if (end <= cursor) continue;
+    if (start >= to) break;
+    if (start > cursor) out.push([cursor, start]);
+    cursor = Math.max(cursor, end);
+  }
+  if (cursor < to) out.push([cursor, to]);
+  return out;
+}
+
+function tally(entries: Map<string, Tally>, key: string, label: string, ms: number) {
+  const t = entries.get(key) ?? { key, label, meetings: 0, hours: 0 };
+  t.meetings++;
+  t.hours += ms / HOUR_MS;
+  entries.set(key, t);
+}
+
+const top = (entries: Map<string, Tally>) =>
+  [...entries.values()]
+    .map((t) => ({ ...t, hours: round1(t.hours) }))
+    .sort((a, b) => b.meetings - a.meetings || b.hours - a.hours)
+    .slice(0, TOP_TALLIES);
+
+// ‑‑‑ Public ---------------------------------------------------------------
+/** The days of `preset` around `today` (weeks start Monday). */
+export function presetRange(preset: RangePreset, today: Date): DateRange {
+  const week = startOfWeek(today, { weekStartsOn: 1 });
+  switch (preset) {
+    case "this_week":
+      return { from: week, to: endOfWeek(today, { weekStartsOn: 1 }) };
+    case "next_week":
+      return { from: addWeeks(week, 1), to: addDays(addWeeks(week, 2), -1) };
+    case "last_4_weeks":
+      return { from: addWeeks(week, -3), to: addDays(addWeeks(week, 1), -1) };
+    case "next_4_weeks":
+      return { from: week, to: addDays(addWeeks(week, 4), -1) };
+  }
+}
+
+export function rangeLength(range: DateRange): number {
+  return differenceInCalendarDays(range.to, range.from) + 1;
+}
+
+/** `range` as the inclusive `yyyy-MM-dd` dates of a request. */
+export function toWireRange(range: DateRange): { start: string; end: string } {
+  return { start: format(range.from, "yyyy-MM-dd"), end: format(range.to, "yyyy-MM-dd") };
+}
+
+/** The question asked alongside `range`, for backends that only read `query`. */
+export function rangeQuery(range: DateRange): string {
+  const day = (d: Date) => format(d, "EEEE d MMMM yyyy");
+  return `List every event on my calendars from ${day(range.from)} to ${day(range.to)}, inclusive.`;
+}
+
+export function computeInsights(
+  events: CalendarEvent[],
+  range: DateRange,
+  {
+    timeZone,
+    workingHours = DEFAULT_WORKING_HOURS,
+    focusMinutes = FOCUS_MIN_MINUTES,
+  }: { timeZone?: string; workingHours?: WorkingHours; focusMinutes?: number } = {}
+): Insights {
+  const first = startOfDay(range.from);
+  const days = Array.from({ length: Math.max(rangeLength(range), 0) }, (_, i) =>
+    addDays(first, i)
+  );
+  const rangeStart = first.getTime();
+  const rangeEnd = days.length ? addDays(days[days.length - 1], 1).getTime() : rangeStart;
+
+  const meetings = events
+    .filter(isMeeting)
+    .map((event): { event: CalendarEvent; span: Interval } => ({
+      event,
+      span: [eventStart(event, timeZone).getTime(), eventEnd(event, timeZone).getTime()],
+    }))
+    .filter(({ span }) => span[1] > rangeStart && span[0] < rangeEnd);
+
+  const attendees = new Map<string, Tally>();
+  const calendars = new Map<string, Tally>();
+  for (const { event, span } of meetings) {
+    const ms = Math.min(span[1], rangeEnd) - Math.max(span[0], rangeStart);
+    for (const a of event.attendees) {
+      if (a.self || a.status === "declined") continue;
+      tally(attendees, (a.email ?? a.name ?? "").toLowerCase(), attendeeLabel(a), ms);
+    }
+    tally(calendars, event.calendarId ?? "", event.calendarId ?? "Default calendar", ms);
+  }
+
+  const focusBlocks: FocusBlock[] = [];
+  const dayLoads = days.map((day): DayLoad => {
+    const from = day.getTime();
+    const to = addDays(day, 1).getTime();
+    const touching = meetings.filter(({ span }) => span[1] > from && span[0] < to);
+    const busy = merge(
+      touching.map(({ span }): Interval => [Math.max(span[0], from), Math.min(span[1], to)])
+    );
+    let focusMs = 0;
+    if (!isWeekend(day)) {
+      const workStart = setHours(day, workingHours.start).getTime();
+      const workEnd = setHours(day, workingHours.end).getTime();
+      for (const [start, end] of gaps(busy, workStart, workEnd)) {
+        const minutes = (end - start) / 60_000;
+        if (minutes < focusMinutes) continue;
+        focusBlocks.push({ start: new Date(start), end: new Date(end), minutes });
+        focusMs += end - start;
+      }
+    }
+    return {
+      day,
+      date: format(day, "yyyy-MM-dd"),
+      label: format(day, days.length > 7 ? "d MMM" : "EEE d"),
+      meetings: touching.length,
+      meetingHours: hours(busy.reduce((sum, [s, e]) => sum + e - s, 0)),
+      focusHours: hours(focusMs),
+    };
+  });
+
+  const weeks = new Map<string, WeekLoad>();
+  dayLoads.forEach((load, i) => {
+    const week = startOfWeek(days[i], { weekStartsOn: 1 });
+    const key = format(week, "yyyy-MM-dd");
+    const w = weeks.get(key) ?? {
+      weekStart: key,
+      label: `Week of ${format(latest([week, first]), "d MMM")}`,
+      meetings: 0,
+      meetingHours: 0,
+      focusHours: 0,
+    };
+    w.meetingHours = round1(w.meetingHours + load.meetingHours);
+    w.focusHours = round1(w.focusHours + load.focusHours);
+    weeks.set(key, w);
+  });
+  // a meeting is counted in the week it starts (or the first week of the range)
+  for (const { span } of meetings) {
+    const start = earliest([latest([new Date(span[0]), first]), days[days.length - 1]]);
+    const key = format(startOfWeek(start, { weekStartsOn: 1 }), "yyyy-MM-dd");
+    const w = weeks.get(key);
+    if (w) w.meetings++;
+  }
+
+  const meetingHours = round1(dayLoads.reduce((sum, d) => sum + d.meetingHours, 0));
+  const workdays = days.filter((d) => !isWeekend(d)).length;
+  const busiestDay = dayLoads.reduce<DayLoad | undefined>(
+    (best, d) => (d.meetingHours > (best?.meetingHours ?? 0) ? d : best),
+    undefined
+  );
+
+  return {
+    days: dayLoads,
+    weeks: [...weeks.values()],
+    attendees: top(attendees),
+    calendars: top(calendars),
+    focusBlocks,
+    totals: {
+      meetings: meetings.length,
+      meetingHours,
+      focusHours: round1(dayLoads.reduce((sum, d) => sum + d.focusHours, 0)),
+      hoursPerWorkday: workdays ? round1(meetingHours / workdays) : 0,
+      busiestDay,
+    },
+  };
+}
+
+/** Change of the last week against the one before, or null with fewer than two. */
+export function weekOverWeek(
+  weeks: WeekLoad[]
+): { meetings: number; meetingHours: number; focusHours: number } | null {
+  if (weeks.length < 2) return null;
+  const [prev, last] = weeks.slice(-2);
+  return {
+    meetings: last.meetings - prev.meetings,
+    meetingHours: round1(last.meetingHours - prev.meetingHours),
+    focusHours: round1(last.focusHours - prev.focusHours),
+  };
+}
@@ -0,0 +1,106 @@
+// ---------------------------------------------------------------------------
+// Pending actions – calendar changes the assistant wants approved first
+// ---------------------------------------------------------------------------
+// A response may carry `pending_action` instead of (or next to) an answer:
+// the change is prepared but not applied. The user confirms or cancels it,
+// and the decision is posted back as `{ confirmation: { action_id,
+// approved } }`. `before`/`after` describe the event on either side of the
+// change, which is what the confirmation dialog diffs for edits.
+// ---------------------------------------------------------------------------
+
+import { z } from "zod";
+
+import { CalendarEventSchema, attendeeLabel, formatEventTime } from "@/lib/events";
+import type { CalendarEvent } from "@/lib/events";
+import { describeRecurrenceLines } from "@/lib/recurrence";
+
+export const PENDING_ACTION_TYPES = ["create_event", "update_event", "delete_event"] as const;
+export type PendingActionType = (typeof PENDING_ACTION_TYPES)[number];
+
+export interface PendingAction {
+  /** Token the confirmation refers to. */
+  id: string;
+  type: PendingActionType;
+  /** One line from the backend, e.g. "Move Design review to Friday 10:00". */
+  summary?: string;
+  /** The event as it is now (update, delete). */
+  before?: CalendarEvent;
+  /** The event as it will be (create, update). */
+  after?: CalendarEvent;
+}
+
+export type Decision = "confirmed" | "cancelled";
+
+// ‑‑‑ Schema ---------------------------------------------------------------
+export const PendingActionSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    action_id: z.string().min(1).optional(),
+    type: z.enum(PENDING_ACTION_TYPES),
+    summary: z.string().optional(),
+    before: CalendarEventSchema.optional(),
+    after: CalendarEventSchema.optional(),
+  })
+  .refine((a) => a.id ?? a.action_id, { message: "Pending action has no id." })
+  .refine((a) => (a.type === "delete_event" ? a.before : a.after), {
+    message: "Pending action is missing the event it changes.",
+  })
+  .transform(
+    (a): PendingAction => ({
+      id: a.id ?? a.action_id ?? "",
+      type: a.type,
+      summary: a.summary || undefined,
+      before: a.before,
+      after: a.after,
+    })
+  );
+
+export const ConfirmationSchema = z.object({
+  action_id: z.string().min(1),
+  approved: z.boolean(),
+});
+
+export type Confirmation = z.infer<typeof ConfirmationSchema>;
+
+// ‑‑‑ Helpers --------------------------------------------------------------
+export interface FieldChange {
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+const FIELDS: {
+  label: string;
+  read: (e: CalendarEvent, timeZone?: string) => string | undefined;
+}[] = [
+  { label: "Title", read: (e) => e.title },
+  { label: "When", read: formatEventTime },
+  { label: "Repeats", read: (e) => e.recurrence && describeRecurrenceLines(e.recurrence) },
+  { label: "Location", read: (e) => e.location },
+  { label: "Guests", read: (e) => e.attendees.map(attendeeLabel).join(", ") || undefined },
+  { label: "Calendar", read: (e) => e.calendarId },
+  { label: "Description", read: (e) => e.description },
+];
+
+/** The fields an update changes, as displayed in the UI. */
+export function diffEvents(
+  before: CalendarEvent,
+  after: CalendarEvent,
+  timeZone?: string
+): FieldChange[] {
+  return FIELDS.flatMap(({ label, read }) => {
+    const from = read(before, timeZone);
+    const to = read(after, timeZone);
+    return from === to ? [] : [{ label, before: from, after: to }];
+  });
+}
+
+/** Fallback for `summary`: "Delete "Design review"". */
+export function describePendingAction(action: PendingAction): string {
+  if (action.summary) return action.summary;
+  const title = (action.after ?? action.before)?.title ?? "event";
+  const verb = { create_event: "Create", update_event: "Update", delete_event: "Delete" }[
+    action.type
+  ];
+  return `${verb} "${title}"`;
+}
@@ -0,0 +1,139 @@
+// ---------------------------------------------------------------------------
+// Playback controller – the assistant's voice, and how the user interrupts it
+// ---------------------------------------------------------------------------
+// Streamed TTS chunks are independently decodable clips, played back to back
+// so speech can start before the whole answer has arrived. Players rendered
+// elsewhere (the conversation's <audio> elements) can be attached, so that
+// barge‑in silences whatever is speaking and only one voice plays at a time.
+// ---------------------------------------------------------------------------
+
+/** What starting to talk does to an answer that is still playing. */
+export type BargeInMode = "duck" | "stop";
+
+/** Volume while ducked – audible, but not over the user. */
+const DUCK_VOLUME = 0.15;
+
+export class PlaybackController {
+  private queue: Blob[] = [];
+  private current: HTMLAudioElement | null = null;
+  private currentUrl = "";
+  private attached = new Set<HTMLMediaElement>();
+  private volume = 1;
+  private listeners = new Set<() => void>();
+
+  get isPlaying(): boolean {
+    if (this.current) return true;
+    for (const el of this.attached) if (!el.paused) return true;
+    return false;
+  }
+
+  get isDucked(): boolean {
+    return this.volume < 1;
+  }
+
+  /** Change notifications, in the shape `useSyncExternalStore` expects. */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  enqueue(chunk: Blob): void {
+    this.queue.push(chunk);
+    if (!this.current) this.playNext();
+  }
+
+  /** Replaces whatever is playing with `clip`. */
+  play(clip: Blob): void {
+    this.stop();
+    this.enqueue(clip);
+  }
+
+  /** Drops pending chunks, silences every player and lifts the duck. */
+  stop(): void {
+    this.queue = [];
+    if (this.current) {
+      this.current.onended = this.current.onerror = null;
+      this.current.pause();
+    }
+    this.release();
+    for (const el of this.attached) el.pause();
+    this.setVolume(1);
+  }
+
+  /** Lowers the volume instead of stopping, until `restore()` or `stop()`. */
+  duck(): void {
+    if (this.isPlaying) this.setVolume(DUCK_VOLUME);
+  }
+
+  restore(): void {
+    this.setVolume(1);
+  }
+
+  /** Puts an externally rendered player under this controller; returns detach. */
+  attach(el: HTMLMediaElement): () => void {
+    el.volume = this.volume;
+    const onPlay = () => {
+      // a manual replay takes over from the streamed answer
+      this.queue = [];
+      if (this.current) {
+        this.current.onended = this.current.onerror = null;
+        this.current.pause();
+        this.release();
+      }
+      for (const other of this.attached) if (other !== el) other.pause();
+      this.setVolume(1);
+    };
+    const onChange = () => this.emit();
+    el.addEventListener("play", onPlay);
+    el.addEventListener("pause", onChange);
+    el.addEventListener("ended", onChange);
+    this.attached.add(el);
+    return () => {
+      el.removeEventListener("play", onPlay);
+      el.removeEventListener("pause", onChange);
+      el.removeEventListener("ended", onChange);
+      this.attached.delete(el);
+      this.emit();
+    };
+  }
+
+  private setVolume(volume: number): void {
+    this.volume = volume;
+    if (this.current) this.current.volume = volume;
+    for (const el of this.attached) el.volume = volume;
+    this.emit();
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) listener();
+  }
+
+  private release(): void {
+    if (this.currentUrl) URL.revokeObjectURL(this.currentUrl);
+    this.current = null;
+    this.currentUrl = "";
+  }
+
+  private playNext(): void {
+    const next = this.queue.shift();
+    if (!next) {
+      this.emit();
+      return;
+    }
+
+    this.currentUrl = URL.createObjectURL(next);
+    const audio = new Audio(this.currentUrl);
+    audio.volume = this.volume;
+    this.current = audio;
+    this.emit();
+
+    const advance = () => {
+      this.release();
+      this.playNext();
+    };
+    audio.onended = advance;
+    audio.onerror = advance;
+    // autoplay may be blocked until the user has interacted with the page
+    audio.play().catch(advance);
+  }
+}
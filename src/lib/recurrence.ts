@@ -0,0 +1,146 @@
+// ---------------------------------------------------------------------------
+// Recurrence – the RFC 5545 RRULE subset the event form can express
+// ---------------------------------------------------------------------------
+// FREQ, INTERVAL, BYDAY (plain weekdays of weekly rules), COUNT and UNTIL.
+// Rules using other parts (BYMONTHDAY, BYSETPOS, …) parse to `null`, so
+// callers can keep the original string instead of silently simplifying it.
+// ---------------------------------------------------------------------------
+
+import { format } from "date-fns";
+
+import { fromZonedDate } from "@/lib/timezone";
+
+export const FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type Frequency = (typeof FREQUENCIES)[number];
+
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface Recurrence {
+  freq: Frequency;
+  interval: number;
+  /** Weekly rules only; empty means "the weekday of the first occurrence". */
+  byDay: Weekday[];
+  count?: number;
+  /** Last possible occurrence (inclusive). */
+  until?: Date;
+}
+
+const UNIT: Record<Frequency, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+const DAY_NAME: Record<Weekday, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** UNTIL must have the value type of DTSTART: a DATE for all‑day events. */
+function formatUntil(until: Date, allDay: boolean, timeZone?: string): string {
+  if (allDay) return format(until, "yyyyMMdd");
+  // end of that day in the zone the form shows, expressed in UTC as the RFC requires
+  const endOfDay = new Date(until.getFullYear(), until.getMonth(), until.getDate(), 23, 59, 59);
+  const end = timeZone ? fromZonedDate(endOfDay, timeZone) : endOfDay;
+  return (
+    `${end.getUTCFullYear()}${pad(end.getUTCMonth() + 1)}${pad(end.getUTCDate())}` +
+    `T${pad(end.getUTCHours())}${pad(end.getUTCMinutes())}${pad(end.getUTCSeconds())}Z`
+  );
+}
+
+function parseUntil(value: string): Date | undefined {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!m) return undefined;
+  const [, y, mo, d, h, mi, s, z] = m;
+  if (!h) return new Date(+y, +mo - 1, +d);
+  return z
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+}
+
+// ‑‑‑ Public ---------------------------------------------------------------
+/**
+ * `RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10`. A timed UNTIL date is
+ * read in `timeZone` (default: the browser's).
+ */
+export function toRRule(
+  rule: Recurrence,
+  { allDay = false, timeZone }: { allDay?: boolean; timeZone?: string } = {}
+): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === "WEEKLY" && rule.byDay.length) parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until, allDay, timeZone)}`);
+  return `RRULE:${parts.join(";")}`;
+}
+
+/** Parses one RRULE line (with or without the `RRULE:` prefix). */
+export function parseRRule(line: string): Recurrence | null {
+  const body = line.replace(/^RRULE:/i, "").trim();
+  const rule: Recurrence = { freq: "DAILY", interval: 1, byDay: [] };
+  let hasFreq = false;
+
+  for (const part of body.split(";").filter(Boolean)) {
+    const [key, value = ""] = part.split("=");
+    switch (key.toUpperCase()) {
+      case "FREQ":
+        if (!FREQUENCIES.includes(value as Frequency)) return null;
+        rule.freq = value as Frequency;
+        hasFreq = true;
+        break;
+      case "INTERVAL":
+        rule.interval = Math.max(1, parseInt(value, 10) || 1);
+        break;
+      case "BYDAY": {
+        const days = value.split(",");
+        // "1MO", "-1FR" etc. are monthly positions we cannot represent
+        if (!days.every((d) => WEEKDAYS.includes(d as Weekday))) return null;
+        rule.byDay = days as Weekday[];
+        break;
+      }
+      case "COUNT":
+        rule.count = parseInt(value, 10) || undefined;
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        if (!rule.until) return null;
+        break;
+      case "WKST":
+        break;
+      default:
+        return null;
+    }
+  }
+  if (!hasFreq) return null;
+  // BYDAY on a monthly or yearly rule means "every Monday", which the form cannot say
+  if (rule.byDay.length && rule.freq !== "WEEKLY") return null;
+  return rule;
+}
+
+/** Label for an event's recurrence lines; "Repeats" for rules we cannot spell out. */
+export function describeRecurrenceLines(lines: string[]): string {
+  const rule = lines.map(parseRRule).find(Boolean);
+  return rule ? describeRecurrence(rule) : "Repeats";
+}
+
+/** "Every 2 weeks on Mon, Wed · 10 times" */
+export function describeRecurrence(rule: Recurrence): string {
+  const unit = UNIT[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+  if (rule.freq === "WEEKLY" && rule.byDay.length) {
+    text += ` on ${rule.byDay.map((d) => DAY_NAME[d]).join(", ")}`;
+  }
+  if (rule.count) text += ` · ${rule.count} times`;
+  else if (rule.until) text += ` · until ${format(rule.until, "d MMM yyyy")}`;
+  return text;
+}
@@ -0,0 +1,67 @@
+// ---------------------------------------------------------------------------
+// Router – client‑side routes on the History API
+// ---------------------------------------------------------------------------
+//   /                  chat with the selected agent
+//   /chat/:threadId    chat, reopened on a saved conversation
+//   /kiosk             voice‑only kiosk
+//   /history           saved conversations
+//   /settings          agent, backend, voice, time zone and shortcuts
+// Every host answers unknown paths with index.html – Firebase (`**`
+// rewrite), the BFF (server/app) and Vite's dev server – so deep links and
+// reloads land on the right page.
+// ---------------------------------------------------------------------------
+
+import { create } from "zustand";
+
+export type Route =
+  | { name: "chat"; threadId?: string }
+  | { name: "kiosk" }
+  | { name: "history" }
+  | { name: "settings" }
+  | { name: "not-found"; path: string };
+
+export type RouteName = Route["name"];
+
+/** The route `pathname` names; trailing slashes are ignored. */
+export function matchRoute(pathname: string): Route {
+  const path = pathname.replace(/\/+$/, "") || "/";
+  if (path === "/") return { name: "chat" };
+  if (path === "/kiosk") return { name: "kiosk" };
+  if (path === "/history") return { name: "history" };
+  if (path === "/settings") return { name: "settings" };
+  const chat = /^\/chat\/([^/]+)$/.exec(path);
+  if (chat) return { name: "chat", threadId: decodeURIComponent(chat[1]) };
+  return { name: "not-found", path };
+}
+
+/** The path of the chat, opened on `threadId` if given. */
+export const chatPath = (threadId?: string | null) =>
+  threadId ? `/chat/${encodeURIComponent(threadId)}` : "/";
+
+// ‑‑‑ Store ----------------------------------------------------------------
+interface RouterState {
+  path: string;
+  /** Pushes `to` (or replaces the entry) without reloading the page. */
+  navigate: (to: string, options?: { replace?: boolean }) => void;
+}
+
+export const useRouter = create<RouterState>()((set) => ({
+  path: location.pathname,
+  navigate: (to, { replace = false } = {}) => {
+    if (to === location.pathname) return;
+    if (replace) history.replaceState(null, "", to);
+    else history.pushState(null, "", to);
+    set({ path: location.pathname });
+  },
+}));
+
+// back / forward
+window.addEventListener("popstate", () => useRouter.setState({ path: location.pathname }));
+
+export const navigate: RouterState["navigate"] = (to, options) =>
+  useRouter.getState().navigate(to, options);
+
+/** The current route; re‑renders on navigation. */
+export function useRoute(): Route {
+  return matchRoute(useRouter((s) => s.path));
+}
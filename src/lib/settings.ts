@@ -0,0 +1,122 @@
+// ---------------------------------------------------------------------------
+// User settings – persisted in localStorage, one section per feature
+// ---------------------------------------------------------------------------
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+import type { BargeInMode } from "@/lib/playback";
+import { DEFAULT_PUSH_TO_TALK } from "@/lib/shortcuts";
+import type { KeyCombo } from "@/lib/shortcuts";
+import { isValidTimeZone, localTimeZone } from "@/lib/timezone";
+
+export interface VoiceSettings {
+  /** Stop and send automatically once the user stops talking. */
+  handsFree: boolean;
+  /** 0 (only loud speech counts) … 1 (whispers count). */
+  sensitivity: number;
+  /** Silence after speech that ends the utterance. */
+  silenceMs: number;
+  /** Hard cap on a single recording, hands‑free or not. */
+  maxUtteranceMs: number;
+  /** Speak answers as soon as they arrive. */
+  autoPlay: boolean;
+  /** Recording ducks or stops the answer; detected speech always stops it. */
+  bargeIn: BargeInMode;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  handsFree: false,
+  sensitivity: 0.6,
+  silenceMs: 1500,
+  maxUtteranceMs: 60_000,
+  autoPlay: true,
+  bargeIn: "duck",
+};
+
+export interface MicSettings {
+  /** `enumerateDevices()` id of the chosen input; null follows the system default. */
+  deviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_MIC_SETTINGS: MicSettings = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export interface ShortcutSettings {
+  /** Hold to record, release to send (voice mode only). */
+  pushToTalk: KeyCombo;
+}
+
+export const DEFAULT_SHORTCUT_SETTINGS: ShortcutSettings = {
+  pushToTalk: DEFAULT_PUSH_TO_TALK,
+};
+
+export interface TimeSettings {
+  /** IANA zone event times are shown in; null follows the device. */
+  timeZone: string | null;
+  /** Second zone shown next to event times; null shows none. */
+  secondaryTimeZone: string | null;
+}
+
+export const DEFAULT_TIME_SETTINGS: TimeSettings = {
+  timeZone: null,
+  secondaryTimeZone: null,
+};
+
+interface SettingsState {
+  voice: VoiceSettings;
+  mic: MicSettings;
+  shortcuts: ShortcutSettings;
+  time: TimeSettings;
+  setVoice: (patch: Partial<VoiceSettings>) => void;
+  setMic: (patch: Partial<MicSettings>) => void;
+  setShortcuts: (patch: Partial<ShortcutSettings>) => void;
+  setTime: (patch: Partial<TimeSettings>) => void;
+}
+
+export const useSettings = create<SettingsState>()(
+  persist(
+    (set) => ({
+      voice: DEFAULT_VOICE_SETTINGS,
+      mic: DEFAULT_MIC_SETTINGS,
+      shortcuts: DEFAULT_SHORTCUT_SETTINGS,
+      time: DEFAULT_TIME_SETTINGS,
+      setVoice: (patch) => set((s) => ({ voice: { ...s.voice, ...patch } })),
+      setMic: (patch) => set((s) => ({ mic: { ...s.mic, ...patch } })),
+      setShortcuts: (patch) =>
+        set((s) => ({ shortcuts: { ...s.shortcuts, ...patch } })),
+      setTime: (patch) => set((s) => ({ time: { ...s.time, ...patch } })),
+    }),
+    {
+      name: "agent-app:settings",
+      // new fields added in later versions fall back to their defaults
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<SettingsState>;
+        return {
+          ...current,
+          voice: { ...current.voice, ...saved.voice },
+          mic: { ...current.mic, ...saved.mic },
+          shortcuts: { ...current.shortcuts, ...saved.shortcuts },
+          time: { ...current.time, ...saved.time },
+        };
+      },
+    }
+  )
+);
+
+/** The zone times are shown in; a saved zone the browser no longer knows is ignored. */
+export function displayTimeZone(time: TimeSettings = useSettings.getState().time): string {
+  return time.timeZone && isValidTimeZone(time.timeZone) ? time.timeZone : localTimeZone();
+}
+
+/** Sent with every request so the backend reads "tomorrow at 9" the user's way. */
+export function getRequestContext(): { timezone: string; locale: string } {
+  return { timezone: displayTimeZone(), locale: navigator.language || "en-US" };
+}
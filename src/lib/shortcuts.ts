@@ -0,0 +1,111 @@
+// ---------------------------------------------------------------------------
+// Keyboard shortcuts – one table for the handlers and the cheat sheet
+// ---------------------------------------------------------------------------
+// Letter shortcuts match on `KeyboardEvent.code`, so they keep working with
+// Alt on macOS (where `key` turns into a symbol) and on non‑QWERTY layouts.
+// ---------------------------------------------------------------------------
+
+export interface KeyCombo {
+  /** `KeyboardEvent.code`, e.g. "KeyM", "Space", "Escape". */
+  code: string;
+  alt?: boolean;
+  ctrl?: boolean;
+  shift?: boolean;
+  meta?: boolean;
+}
+
+export type ShortcutId =
+  | "toggleMode"
+  | "focusInput"
+  | "replayAudio"
+  | "cancelRequest"
+  | "showShortcuts";
+
+export interface ShortcutDefinition {
+  combo: KeyCombo;
+  description: string;
+  /** Still fires while typing in an input. */
+  allowInInputs?: boolean;
+}
+
+export const SHORTCUTS: Record<ShortcutId, ShortcutDefinition> = {
+  toggleMode: {
+    combo: { code: "KeyM", alt: true },
+    description: "Switch between Voice and Text mode",
+    allowInInputs: true,
+  },
+  focusInput: {
+    combo: { code: "Slash" },
+    description: "Focus the text input",
+  },
+  replayAudio: {
+    combo: { code: "KeyR", alt: true },
+    description: "Replay the last spoken answer",
+    allowInInputs: true,
+  },
+  cancelRequest: {
+    combo: { code: "Escape" },
+    description: "Cancel the running request or stop the spoken answer",
+    allowInInputs: true,
+  },
+  showShortcuts: {
+    combo: { code: "Slash", shift: true },
+    description: "Show keyboard shortcuts",
+  },
+};
+
+/** Shortcuts owned by other components, listed for completeness. */
+export const EXTERNAL_SHORTCUTS: { label: string; description: string }[] = [
+  { label: "Ctrl B", description: "Toggle the conversation sidebar" },
+];
+
+export const DEFAULT_PUSH_TO_TALK: KeyCombo = { code: "Space" };
+
+export function matchesCombo(e: KeyboardEvent, combo: KeyCombo): boolean {
+  return (
+    e.code === combo.code &&
+    e.altKey === !!combo.alt &&
+    e.ctrlKey === !!combo.ctrl &&
+    e.shiftKey === !!combo.shift &&
+    e.metaKey === !!combo.meta
+  );
+}
+
+/** "Space" → "Space", "KeyM" → "M", "Digit1" → "1", "Slash" → "/". */
+function codeLabel(code: string): string {
+  if (code.startsWith("Key")) return code.slice(3);
+  if (code.startsWith("Digit")) return code.slice(5);
+  const named: Record<string, string> = {
+    Slash: "/",
+    Backquote: "`",
+    Escape: "Esc",
+    ControlLeft: "Left Ctrl",
+    ControlRight: "Right Ctrl",
+    AltLeft: "Left Alt",
+    AltRight: "Right Alt",
+    ShiftLeft: "Left Shift",
+    ShiftRight: "Right Shift",
+  };
+  return named[code] ?? code;
+}
+
+export function formatCombo(combo: KeyCombo): string[] {
+  const keys: string[] = [];
+  if (combo.ctrl) keys.push("Ctrl");
+  if (combo.meta) keys.push("⌘");
+  if (combo.alt) keys.push("Alt");
+  if (combo.shift) keys.push("Shift");
+  keys.push(codeLabel(combo.code));
+  return keys;
+}
+
+/** True when keystrokes are meant for a text field, not for shortcuts. */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
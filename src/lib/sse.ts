@@ -0,0 +1,72 @@
+// ---------------------------------------------------------------------------
+// Server‑Sent Events reader for fetch() response bodies
+// ---------------------------------------------------------------------------
+// EventSource only supports GET, so POST streams are parsed by hand following
+// the WHATWG event‑stream rules: `field: value` lines, blank line dispatches,
+// `:` starts a comment, multiple `data:` lines are joined with "\n".
+// ---------------------------------------------------------------------------
+
+export interface SseEvent {
+  /** `event:` field, "message" when absent. */
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export async function* readSse(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "";
+  let data: string[] = [];
+  let id: string | undefined;
+
+  /** Feeds one line; returns an event when the line completes one. */
+  const handleLine = (line: string): SseEvent | null => {
+    if (line === "") {
+      const out = data.length
+        ? { event: event || "message", data: data.join("\n"), id }
+        : null;
+      event = "";
+      data = [];
+      return out;
+    }
+    if (line.startsWith(":")) return null;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+    else if (field === "id") id = value;
+    return null;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // keep the trailing partial line (a lone "\r" may still become "\r\n")
+      const lines = buffer.split(/\r\n|\n|\r(?!$)/);
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const out = handleLine(line);
+        if (out) yield out;
+      }
+    }
+    // a stream that ends without the final blank line still counts
+    for (const line of [buffer.replace(/\r$/, ""), ""]) {
+      const out = handleLine(line);
+      if (out) yield out;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
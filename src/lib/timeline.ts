@@ -0,0 +1,147 @@
+// ---------------------------------------------------------------------------
+// Timeline layout – placing events in a day/week time grid
+// ---------------------------------------------------------------------------
+// Timed events are clipped to each day they touch. Overlapping events form a
+// cluster; within a cluster every event takes the leftmost free column, and
+// all members share the cluster's column count – the same side‑by‑side layout
+// Google Calendar uses (minus its partial overlaps). With a `timeZone`, days
+// and hours are those of that zone (zoned Dates, see lib/timezone).
+// ---------------------------------------------------------------------------
+
+import {
+  addDays,
+  differenceInMinutes,
+  endOfDay,
+  isSameDay,
+  max as latest,
+  min as earliest,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+
+import { eventEnd, eventStart } from "@/lib/events";
+import type { CalendarEvent } from "@/lib/events";
+import { toZonedDate } from "@/lib/timezone";
+
+export type TimelineView = "day" | "week" | "month";
+
+export const MINUTES_PER_DAY = 24 * 60;
+/** Shortest block drawn, so 5‑minute events stay clickable. */
+const MIN_BLOCK_MINUTES = 20;
+
+export interface PlacedEvent {
+  event: CalendarEvent;
+  /** Minutes from midnight of the column's day. */
+  top: number;
+  /** Minutes of the day the block covers (at least MIN_BLOCK_MINUTES). */
+  height: number;
+  column: number;
+  columns: number;
+  /** The event started on an earlier day / ends on a later one. */
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+/** Days shown by a day or week view containing `anchor` (weeks start Monday). */
+export function visibleDays(view: Exclude<TimelineView, "month">, anchor: Date): Date[] {
+  const first = view === "day" ? startOfDay(anchor) : startOfWeek(anchor, { weekStartsOn: 1 });
+  return Array.from({ length: view === "day" ? 1 : 7 }, (_, i) => addDays(first, i));
+}
+
+/** Events (timed and all‑day) that touch `day`. */
+export function eventsOnDay(
+  events: CalendarEvent[],
+  day: Date,
+  timeZone?: string
+): CalendarEvent[] {
+  const from = startOfDay(day);
+  const to = endOfDay(day);
+  return events.filter((e) => eventStart(e, timeZone) <= to && eventEnd(e, timeZone) > from);
+}
+
+/** Side‑by‑side layout of the timed events that touch `day`. */
+export function layoutDay(
+  events: CalendarEvent[],
+  day: Date,
+  timeZone?: string
+): PlacedEvent[] {
+  const from = startOfDay(day);
+  const to = addDays(from, 1);
+
+  const items = eventsOnDay(events, day, timeZone)
+    .filter((e) => !e.allDay)
+    .map((event) => {
+      const start = eventStart(event, timeZone);
+      const end = eventEnd(event, timeZone);
+      const top = differenceInMinutes(latest([start, from]), from);
+      const bottom = differenceInMinutes(earliest([end, to]), from);
+      return {
+        event,
+        top,
+        // overlap is decided on the drawn height, so tiny blocks never collide
+        bottom: Math.min(MINUTES_PER_DAY, Math.max(bottom, top + MIN_BLOCK_MINUTES)),
+        continuesBefore: start < from,
+        continuesAfter: end > to,
+      };
+    })
+    .sort((a, b) => a.top - b.top || b.bottom - a.bottom);
+
+  const placed: PlacedEvent[] = [];
+  let cluster: (PlacedEvent & { bottom: number })[] = [];
+  let clusterEnd = -1;
+
+  const flush = () => {
+    const columns = Math.max(0, ...cluster.map((p) => p.column)) + 1;
+    for (const { bottom: _bottom, ...p } of cluster) placed.push({ ...p, columns });
+    cluster = [];
+  };
+
+  for (const item of items) {
+    if (item.top >= clusterEnd) flush();
+    // leftmost column whose last event has ended
+    const taken = new Set(cluster.filter((p) => p.bottom > item.top).map((p) => p.column));
+    let column = 0;
+    while (taken.has(column)) column++;
+    cluster.push({
+      event: item.event,
+      top: item.top,
+      height: item.bottom - item.top,
+      bottom: item.bottom,
+      column,
+      columns: 1,
+      continuesBefore: item.continuesBefore,
+      continuesAfter: item.continuesAfter,
+    });
+    clusterEnd = Math.max(clusterEnd, item.bottom);
+  }
+  flush();
+  return placed;
+}
+
+/** Whole hours worth showing: 8–18 at least, widened to fit every event. */
+export function hourRange(placed: PlacedEvent[][]): [number, number] {
+  let first = 8;
+  let last = 18;
+  for (const p of placed.flat()) {
+    first = Math.min(first, Math.floor(p.top / 60));
+    last = Math.max(last, Math.ceil((p.top + p.height) / 60));
+  }
+  return [first, last];
+}
+
+/** Day the timeline should open on: the first event's, or today. */
+export function initialAnchor(events: CalendarEvent[], timeZone?: string): Date {
+  if (!events.length) return startOfDay(timeZone ? toZonedDate(new Date(), timeZone) : new Date());
+  const first = events.reduce((a, b) => (eventStart(a) <= eventStart(b) ? a : b));
+  return startOfDay(eventStart(first, timeZone));
+}
+
+/** The view that fits the events best: one day, one week, or a month. */
+export function initialView(events: CalendarEvent[], timeZone?: string): TimelineView {
+  if (!events.length) return "week";
+  const days = visibleDays("week", initialAnchor(events, timeZone));
+  const first = events.map((e) => eventStart(e, timeZone));
+  if (first.every((d) => isSameDay(d, first[0]))) return "day";
+  const weekEnd = addDays(days[0], 7);
+  return first.every((d) => d >= days[0] && d < weekEnd) ? "week" : "month";
+}
@@ -0,0 +1,193 @@
+// ---------------------------------------------------------------------------
+// Time zones – IANA zone offsets via Intl, without a tz database of our own
+// ---------------------------------------------------------------------------
+// "Wall time" below is a local date‑time encoded as if it were UTC
+// (`Date.UTC(y, m, d, h, mi, s)`), which keeps zone arithmetic in plain
+// numbers and away from the browser's own zone.
+// ---------------------------------------------------------------------------
+
+const MINUTE_MS = 60_000;
+
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function formatterFor(zone: string): Intl.DateTimeFormat | null {
+  if (!formatters.has(zone)) {
+    try {
+      formatters.set(
+        zone,
+        new Intl.DateTimeFormat("en-US", {
+          timeZone: zone,
+          hourCycle: "h23",
+          year: "numeric",
+          month: "2-digit",
+          day: "2-digit",
+          hour: "2-digit",
+          minute: "2-digit",
+          second: "2-digit",
+        })
+      );
+    } catch {
+      // RangeError: not a zone this browser knows
+      formatters.set(zone, null);
+    }
+  }
+  return formatters.get(zone) ?? null;
+}
+
+/** The browser's zone, e.g. "Europe/Berlin". */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function isValidTimeZone(zone: string): boolean {
+  return formatterFor(zone) !== null;
+}
+
+/** Wall time of `instant` in `zone`, or null for an unknown zone. */
+export function toWallTime(instant: number, zone: string): number | null {
+  const fmt = formatterFor(zone);
+  if (!fmt) return null;
+  const parts: Record<string, number> = {};
+  for (const p of fmt.formatToParts(new Date(instant))) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/** UTC offset of `zone` at `instant`, in minutes east of Greenwich. */
+export function zoneOffset(zone: string, instant: number): number | null {
+  const wall = toWallTime(instant, zone);
+  if (wall === null) return null;
+  // formatToParts has second precision; offsets are whole minutes anyway
+  return Math.round((wall - Math.floor(instant / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Instant of a wall time in `zone`. Times skipped by a DST jump resolve
+ * after the jump, repeated ones to their first occurrence.
+ */
+export function fromWallTime(wall: number, zone: string): number | null {
+  const day = 24 * 3_600_000;
+  const before = zoneOffset(zone, wall - day);
+  const after = zoneOffset(zone, wall + day);
+  if (before === null || after === null) return null;
+  const candidates = [wall - before * MINUTE_MS, wall - after * MINUTE_MS];
+  const valid = candidates.filter((t) => toWallTime(t, zone) === wall);
+  // in a spring‑forward gap neither matches; the old offset lands after the jump
+  return valid.length ? Math.min(...valid) : candidates[0];
+}
+
+/** "+01:00" style offset for `minutes`; `compact` gives "+0100". */
+export function formatOffset(minutes: number, compact = false): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  const hh = String(Math.floor(abs / 60)).padStart(2, "0");
+  const mm = String(abs % 60).padStart(2, "0");
+  return compact ? `${sign}${hh}${mm}` : `${sign}${hh}:${mm}`;
+}
+
+/** Instants in [from, to) at which `zone` changes its offset. */
+export function zoneTransitions(zone: string, from: number, to: number): number[] {
+  const out: number[] = [];
+  const step = 24 * 3_600_000;
+  let prev = zoneOffset(zone, from);
+  if (prev === null) return out;
+  for (let t = from + step; t < to + step; t += step) {
+    const end = Math.min(t, to);
+    const next = zoneOffset(zone, end);
+    if (next === null || next === prev) continue;
+    // narrow the change down to the minute
+    let lo = end - step;
+    let hi = end;
+    while (hi - lo > MINUTE_MS) {
+      const mid = lo + Math.floor((hi - lo) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (zoneOffset(zone, mid) === prev) lo = mid;
+      else hi = mid;
+    }
+    out.push(hi);
+    prev = next;
+  }
+  return out;
+}
+
+const FALLBACK_ZONES = [
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Istanbul",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+/** Every zone the browser knows, for pickers. */
+export function listTimeZones(): string[] {
+  // Intl.supportedValuesOf is ES2022; older browsers get a short list
+  const intl = Intl as unknown as { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.("timeZone") ?? FALLBACK_ZONES;
+  return zones.includes("UTC") ? zones : ["UTC", ...zones];
+}
+
+/** "CET", "GMT+5:30" – the short name of `zone` at `date`. */
+export function zoneAbbreviation(zone: string, date: Date = new Date()): string {
+  try {
+    const part = new Intl.DateTimeFormat("en-US", { timeZone: zone, timeZoneName: "short" })
+      .formatToParts(date)
+      .find((p) => p.type === "timeZoneName");
+    return part?.value ?? zone;
+  } catch {
+    return zone;
+  }
+}
+
+/** "New York" from "America/New_York". */
+export function zoneCity(zone: string): string {
+  return (zone.split("/").pop() ?? zone).replace(/_/g, " ");
+}
+
+// ‑‑‑ date-fns bridge ------------------------------------------------------
+// date-fns formats in the browser's zone. A "zoned" Date carries the wall
+// time of another zone in its local fields, so `format()` shows that zone's
+// clock; `fromZonedDate` turns it back into the real instant.
+
+export function toZonedDate(date: Date, zone: string): Date {
+  const wall = toWallTime(date.getTime(), zone);
+  if (wall === null) return date;
+  const w = new Date(wall);
+  return new Date(
+    w.getUTCFullYear(),
+    w.getUTCMonth(),
+    w.getUTCDate(),
+    w.getUTCHours(),
+    w.getUTCMinutes(),
+    w.getUTCSeconds()
+  );
+}
+
+export function fromZonedDate(zoned: Date, zone: string): Date {
+  const wall = Date.UTC(
+    zoned.getFullYear(),
+    zoned.getMonth(),
+    zoned.getDate(),
+    zoned.getHours(),
+    zoned.getMinutes(),
+    zoned.getSeconds()
+  );
+  const instant = fromWallTime(wall, zone);
+  return instant === null ? zoned : new Date(instant);
+}
+
+/** `2025-03-04T09:00:00+01:00` – ISO 8601 with `zone`'s offset at `date`. */
+export function formatIsoInZone(date: Date, zone: string): string {
+  const wall = toWallTime(date.getTime(), zone);
+  const offset = zoneOffset(zone, date.getTime());
+  if (wall === null || offset === null) return date.toISOString();
+  return new Date(wall).toISOString().slice(0, 19) + formatOffset(offset);
+}
@@ -0,0 +1,104 @@
+// ---------------------------------------------------------------------------
+// Voice activity detection on a live microphone AnalyserNode
+// ---------------------------------------------------------------------------
+// Energy based: the RMS of each frame is compared against a threshold that
+// follows the room's noise floor. Speech must be heard once before silence
+// can end the utterance, so a slow start never cuts the user off.
+// ---------------------------------------------------------------------------
+
+export interface VadOptions {
+  /** 0 (only loud speech counts) … 1 (whispers count). */
+  sensitivity: number;
+  /** Silence after speech that counts as end of utterance. */
+  silenceMs: number;
+  onSpeechStart?: () => void;
+  onSpeechEnd: () => void;
+}
+
+const FRAME_MS = 50;
+/** Frames above threshold needed before speech is believed. */
+const SPEECH_FRAMES = 3;
+/** Threshold never drops below this, whatever the sensitivity. */
+const MIN_RMS = 0.004;
+const MAX_RMS = 0.06;
+const NOISE_MARGIN = 2.5;
+
+/** Below this RMS the mic is effectively delivering nothing (muted/wrong). */
+export const SILENCE_RMS = 0.0015;
+
+/** Root mean square of the analyser's current time‑domain frame. */
+export function frameRms(analyser: AnalyserNode, buffer: Float32Array<ArrayBuffer>): number {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+  return Math.sqrt(sum / buffer.length);
+}
+
+export class VoiceActivityDetector {
+  private readonly analyser: AnalyserNode;
+  private readonly options: VadOptions;
+  private readonly buffer: Float32Array<ArrayBuffer>;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  private noiseFloor = 0;
+  private loudFrames = 0;
+  private speaking = false;
+  private heardSpeech = false;
+  private silentSince = 0;
+
+  constructor(analyser: AnalyserNode, options: VadOptions) {
+    this.analyser = analyser;
+    this.options = options;
+    this.buffer = new Float32Array(analyser.fftSize);
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), FRAME_MS);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private threshold(): number {
+    const s = Math.min(1, Math.max(0, this.options.sensitivity));
+    const base = MAX_RMS - s * (MAX_RMS - MIN_RMS);
+    return Math.max(base, this.noiseFloor * NOISE_MARGIN);
+  }
+
+  private tick(): void {
+    const rms = frameRms(this.analyser, this.buffer);
+    const loud = rms > this.threshold();
+
+    if (!this.speaking && !loud) {
+      // only quiet frames teach us what the room sounds like
+      this.noiseFloor = this.noiseFloor
+        ? this.noiseFloor * 0.95 + rms * 0.05
+        : rms;
+    }
+
+    if (loud) {
+      this.loudFrames++;
+      this.silentSince = 0;
+      if (!this.speaking && this.loudFrames >= SPEECH_FRAMES) {
+        this.speaking = true;
+        this.heardSpeech = true;
+        this.options.onSpeechStart?.();
+      }
+      return;
+    }
+
+    this.loudFrames = 0;
+    if (!this.heardSpeech) return;
+
+    const now = performance.now();
+    if (!this.silentSince) this.silentSince = now;
+    this.speaking = false;
+    if (now - this.silentSince >= this.options.silenceMs) {
+      this.stop();
+      this.options.onSpeechEnd();
+    }
+  }
+}
@@ -0,0 +1,19 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_API_URL_LOCAL?: string;
+  readonly VITE_API_URL_STAGING?: string;
+  readonly VITE_API_URL_PROD?: string;
+  readonly VITE_DEFAULT_ENV?: string;
+  readonly VITE_REQUEST_TIMEOUT_MS?: string;
+  readonly VITE_REQUEST_RETRIES?: string;
+  readonly VITE_AUDIO_FORMAT?: string;
+  readonly VITE_AGENT_URL_EMAIL?: string;
+  readonly VITE_AGENT_URL_DOCS?: string;
+  readonly VITE_DEFAULT_AGENT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
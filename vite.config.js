@@ -12,4 +12,10 @@ export default defineConfig({
       '@': path.resolve(__dirname, 'src'),   // import Foo from '@/components/Foo'
     },
   },
+  server: {
+    proxy: {
+      // same-origin API in dev too: forwarded to the BFF (npm run dev:server)
+      '/assistant': process.env.BFF_URL || 'http://127.0.0.1:8787',
+    },
+  },
 })